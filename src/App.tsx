@@ -6,6 +6,9 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import { LanguageProvider } from "./contexts/LanguageContext";
+import { CompareProvider } from "./contexts/CompareContext";
+import { CurrencyProvider } from "./contexts/CurrencyContext";
+import { CompareTray } from "./components/CompareTray";
 import { userStorage } from "./lib/storage";
 import { Home } from "./pages/Home";
 import { Login } from "./pages/Login";
@@ -15,6 +18,12 @@ import { Checkout } from "./pages/Checkout";
 import { Profile } from "./pages/Profile";
 import { Orders } from "./pages/Orders";
 import { AdminDashboard } from "./pages/AdminDashboard";
+import { Builder } from "./pages/Builder";
+import { ProductDetail } from "./pages/ProductDetail";
+import { Compare } from "./pages/Compare";
+import { OrderLookup } from "./pages/OrderLookup";
+import { Addresses } from "./pages/Addresses";
+import { OrderDocument } from "./pages/OrderDocument";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -45,6 +54,17 @@ const UserRoute = ({ children }: { children: React.ReactNode }) => {
   return <>{children}</>;
 };
 
+// Shop Route Guard (guests and users may shop; admin goes to dashboard)
+const ShopRoute = ({ children }: { children: React.ReactNode }) => {
+  const currentUser = userStorage.getCurrentUser();
+  
+  if (currentUser?.role === 'admin') {
+    return <Navigate to="/admin" replace />;
+  }
+  
+  return <>{children}</>;
+};
+
 // Home Route Guard (redirects admin to dashboard)
 const HomeRoute = () => {
   const currentUser = userStorage.getCurrentUser();
@@ -60,24 +80,36 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider>
       <LanguageProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <Routes>
-              <Route path="/" element={<HomeRoute />} />
-              <Route path="/login" element={<Login />} />
-              <Route path="/signup" element={<Signup />} />
-              <Route path="/cart" element={<UserRoute><Cart /></UserRoute>} />
-              <Route path="/checkout" element={<UserRoute><Checkout /></UserRoute>} />
-              <Route path="/profile" element={<UserRoute><Profile /></UserRoute>} />
-              <Route path="/orders" element={<UserRoute><Orders /></UserRoute>} />
-              <Route path="/admin" element={<AdminRoute><AdminDashboard /></AdminRoute>} />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BrowserRouter>
-        </TooltipProvider>
+        <CurrencyProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <CompareProvider>
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/" element={<HomeRoute />} />
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/signup" element={<Signup />} />
+                  <Route path="/cart" element={<ShopRoute><Cart /></ShopRoute>} />
+                  <Route path="/checkout" element={<ShopRoute><Checkout /></ShopRoute>} />
+                  <Route path="/profile" element={<UserRoute><Profile /></UserRoute>} />
+                  <Route path="/orders" element={<UserRoute><Orders /></UserRoute>} />
+                  <Route path="/addresses" element={<UserRoute><Addresses /></UserRoute>} />
+                  <Route path="/admin" element={<AdminRoute><AdminDashboard /></AdminRoute>} />
+                  <Route path="/builder" element={<Builder />} />
+                  <Route path="/product/:id" element={<ProductDetail />} />
+                  <Route path="/compare" element={<Compare />} />
+                  <Route path="/order-lookup" element={<OrderLookup />} />
+                  {/* Open to guests; the page checks access to the order itself */}
+                  <Route path="/orders/:orderId/:documentType" element={<OrderDocument />} />
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+                <CompareTray />
+              </BrowserRouter>
+            </CompareProvider>
+          </TooltipProvider>
+        </CurrencyProvider>
       </LanguageProvider>
     </ThemeProvider>
   </QueryClientProvider>
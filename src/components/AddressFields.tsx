@@ -0,0 +1,88 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { COUNTRIES, getCountry, getCountryName, type AddressError, type AddressField } from '@/lib/address';
+import type { Address } from '@/lib/storage';
+
+interface AddressFieldsProps {
+  value: Address;
+  onChange: (address: Address) => void;
+  // Keeps input ids unique when a page shows more than one address form
+  idPrefix: string;
+  errors?: AddressError[];
+}
+
+export function AddressFields({ value, onChange, idPrefix, errors = [] }: AddressFieldsProps) {
+  const { language, t } = useLanguage();
+  const country = getCountry(value.country);
+
+  const setField = (field: AddressField, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const errorFor = (field: AddressField) => {
+    const error = errors.find(e => e.field === field);
+    if (!error) return null;
+    const message = error.code === 'invalid_postal'
+      ? `${t('address.invalid_postal')}${country?.postalExample ? ` (${t('address.example')} ${country.postalExample})` : ''}`
+      : t('address.required');
+    return <p className="text-xs text-destructive">{message}</p>;
+  };
+
+  const textField = (field: AddressField, label: string, optional = false) => (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}-${field}`}>
+        {label}
+        {optional && <span className="text-muted-foreground"> ({t('address.optional')})</span>}
+      </Label>
+      <Input
+        id={`${idPrefix}-${field}`}
+        value={value[field] || ''}
+        onChange={(e) => setField(field, e.target.value)}
+        aria-invalid={errors.some(e => e.field === field)}
+      />
+      {errorFor(field)}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {textField('fullName', t('checkout.name'))}
+      {textField('street', t('checkout.street_address'))}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>{t('checkout.country')}</Label>
+          <Select
+            value={value.country}
+            onValueChange={(code) => onChange({
+              ...value,
+              country: code,
+              postalCode: getCountry(code)?.postalPattern ? value.postalCode : ''
+            })}
+          >
+            <SelectTrigger aria-invalid={errors.some(e => e.field === 'country')}>
+              <SelectValue placeholder={t('address.select_country')} />
+            </SelectTrigger>
+            <SelectContent>
+              {COUNTRIES.map((option) => (
+                <SelectItem key={option.code} value={option.code}>{getCountryName(option.code, language)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errorFor('country')}
+        </div>
+        {textField('city', t('checkout.city'))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {textField('state', t('checkout.state'), !country?.requiresState)}
+        {/* Some countries don't use postal codes */}
+        {(!country || country.postalPattern) && textField('postalCode', t('checkout.postal_code'))}
+      </div>
+
+      {textField('phone', t('checkout.phone'), true)}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { PaymentSettings } from '@/lib/storage';
+
+interface BankTransferDetailsProps {
+  details: PaymentSettings['bankDetails'];
+  // The short order id customers quote as the transfer reference
+  reference?: string;
+}
+
+export function BankTransferDetails({ details, reference }: BankTransferDetailsProps) {
+  const { t } = useLanguage();
+
+  const rows: [string, string][] = [
+    [t('payment_methods.account_name'), details.accountName],
+    [t('payment_methods.bank_name'), details.bankName],
+    [t('payment_methods.iban'), details.iban],
+    [t('payment_methods.swift'), details.swift]
+  ];
+  if (reference) {
+    rows.push([t('payment_methods.reference'), reference]);
+  }
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      {rows.filter(([, value]) => value).map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className="text-muted-foreground">{label}</dt>
+          <dd className="font-mono">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
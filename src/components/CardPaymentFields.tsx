@@ -0,0 +1,66 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { detectCardBrand, type CardDetails, type CardError, type CardField } from '@/lib/cards';
+
+interface CardPaymentFieldsProps {
+  value: CardDetails;
+  onChange: (card: CardDetails) => void;
+  errors?: CardError[];
+}
+
+export function CardPaymentFields({ value, onChange, errors = [] }: CardPaymentFieldsProps) {
+  const { t } = useLanguage();
+  const brand = detectCardBrand(value.number);
+
+  const errorFor = (field: CardField) => {
+    const error = errors.find(e => e.field === field);
+    return error ? <p className="text-xs text-destructive">{t(`payments.error_${error.code}`)}</p> : null;
+  };
+
+  const field = (name: CardField, id: string, label: string, placeholder?: string, autoComplete?: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        placeholder={placeholder}
+        autoComplete={autoComplete}
+        value={value[name]}
+        onChange={(e) => onChange({ ...value, [name]: e.target.value })}
+        aria-invalid={errors.some(e => e.field === name)}
+        required
+      />
+      {errorFor(name)}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {field('name', 'cardName', t('checkout.cardholder_name'), undefined, 'cc-name')}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="cardNumber">{t('checkout.card_number')}</Label>
+          {brand !== 'unknown' && <Badge variant="secondary">{t(`payments.brand_${brand}`)}</Badge>}
+        </div>
+        <Input
+          id="cardNumber"
+          inputMode="numeric"
+          autoComplete="cc-number"
+          placeholder={t('checkout.card_number_placeholder')}
+          value={value.number}
+          onChange={(e) => onChange({ ...value, number: e.target.value })}
+          aria-invalid={errors.some(e => e.field === 'number')}
+          required
+        />
+        {errorFor('number')}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {field('expiry', 'expiryDate', t('checkout.expiry_date'), t('checkout.expiry_placeholder'), 'cc-exp')}
+        {field('cvv', 'cvv', t('checkout.cvv'), t('checkout.cvv_placeholder'), 'cc-csc')}
+      </div>
+    </div>
+  );
+}
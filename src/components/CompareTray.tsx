@@ -0,0 +1,62 @@
+import { Link, useLocation } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCompare } from '@/contexts/CompareContext';
+import { GitCompare, X } from 'lucide-react';
+import { MAX_COMPARE_ITEMS, productStorage } from '@/lib/storage';
+
+// Pages where the tray would cover the page's own controls
+const HIDDEN_PATHS = ['/compare', '/admin', '/checkout'];
+
+export function CompareTray() {
+  const { compareIds, removeFromCompare, clearCompare } = useCompare();
+  const location = useLocation();
+  const { t } = useLanguage();
+
+  const products = productStorage.getProducts().filter(p => compareIds.includes(p.id));
+
+  if (products.length === 0 || HIDDEN_PATHS.includes(location.pathname)) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 border-t border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80">
+      <div className="container mx-auto px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-2 overflow-x-auto flex-1">
+          {products.map((product) => (
+            <div key={product.id} className="relative flex-shrink-0">
+              <img
+                src={product.imageUrl}
+                alt={product.name}
+                title={product.name}
+                className="h-12 w-12 rounded-md object-cover border border-border"
+              />
+              <button
+                type="button"
+                aria-label={t('compare.remove')}
+                onClick={() => removeFromCompare(product.id)}
+                className="absolute -top-1.5 -right-1.5 rounded-full bg-destructive text-destructive-foreground p-0.5"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          <span className="text-sm text-muted-foreground ml-2 whitespace-nowrap">
+            {products.length}/{MAX_COMPARE_ITEMS}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={clearCompare}>
+            {t('compare.clear')}
+          </Button>
+          <Link to="/compare">
+            <Button size="sm">
+              <GitCompare className="h-4 w-4 mr-2" />
+              {t('compare.compare_now')}
+            </Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useTranslation } from 'react-i18next';
+import type { CompatibilityIssue } from '@/lib/compatibility';
+
+interface CompatibilityWarningsProps {
+  issues: CompatibilityIssue[];
+  className?: string;
+}
+
+export function CompatibilityWarnings({ issues, className }: CompatibilityWarningsProps) {
+  const { t } = useTranslation();
+
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  return (
+    <div className={`space-y-3 ${className || ''}`}>
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertTitle>{t('compatibility.errors_title')}</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {errors.map((issue, index) => (
+                <li key={index}>{t(`compatibility.${issue.code}`, issue.params)}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      {warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{t('compatibility.warnings_title')}</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {warnings.map((issue, index) => (
+                <li key={index}>{t(`compatibility.${issue.code}`, issue.params)}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
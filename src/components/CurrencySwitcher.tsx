@@ -0,0 +1,21 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { CURRENCIES } from '@/lib/currency';
+import type { CurrencyCode } from '@/lib/storage';
+
+export function CurrencySwitcher() {
+  const { currency, setCurrency } = useCurrency();
+
+  return (
+    <Select value={currency} onValueChange={(value) => setCurrency(value as CurrencyCode)}>
+      <SelectTrigger className="w-20 h-9 border-none bg-transparent hover:bg-accent text-sm font-medium">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CURRENCIES.map((code) => (
+          <SelectItem key={code} value={code}>{code}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { BASE_CURRENCY, formatConverted, getExchangeRate } from '@/lib/currency';
+import type { CurrencyCode, ExchangeRate } from '@/lib/storage';
+
+type RateForms = Record<string, { rate: string; rounding: string }>;
+
+const toForms = (rates: ExchangeRate[]): RateForms => {
+  return Object.fromEntries(rates.map(r => [r.currency, { rate: String(r.rate), rounding: String(r.rounding) }]));
+};
+
+// Sample price shown next to each rate so the rounding can be checked at a glance
+const SAMPLE_PRICE = 1299.99;
+
+export function ExchangeRateManager() {
+  const { rates, updateRate } = useCurrency();
+  const [forms, setForms] = useState<RateForms>(() => toForms(rates));
+  const { toast } = useToast();
+  const { language, t } = useLanguage();
+
+  const setField = (currency: CurrencyCode, field: 'rate' | 'rounding', value: string) => {
+    setForms(prev => ({ ...prev, [currency]: { ...prev[currency], [field]: value } }));
+  };
+
+  const saveRate = (currency: CurrencyCode) => {
+    const form = forms[currency];
+    if (!updateRate(currency, parseFloat(form.rate), parseFloat(form.rounding))) {
+      toast({ title: t('currency.invalid_rate'), description: t('currency.invalid_rate_hint'), variant: "destructive" });
+      return;
+    }
+    toast({ title: t('common.success'), description: `${t('currency.rate_saved')} ${currency}` });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('currency.exchange_rates')}</CardTitle>
+        <p className="text-sm text-muted-foreground">{t('currency.base_hint')} {BASE_CURRENCY}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rates.map((rate) => {
+          const isBase = rate.currency === BASE_CURRENCY;
+          return (
+            <div key={rate.currency} className="p-4 border rounded-lg grid gap-4 sm:grid-cols-[6rem_1fr_1fr_auto] sm:items-end">
+              <div className="space-y-1">
+                <p className="font-semibold">{rate.currency}</p>
+                {isBase && <Badge variant="secondary">{t('currency.base')}</Badge>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`rate-${rate.currency}`}>{t('currency.rate')} (1 {BASE_CURRENCY} =)</Label>
+                <Input
+                  id={`rate-${rate.currency}`}
+                  type="number"
+                  min="0"
+                  step="0.0001"
+                  value={forms[rate.currency]?.rate ?? ''}
+                  onChange={(e) => setField(rate.currency, 'rate', e.target.value)}
+                  disabled={isBase}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`rounding-${rate.currency}`}>{t('currency.rounding')}</Label>
+                <Input
+                  id={`rounding-${rate.currency}`}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={forms[rate.currency]?.rounding ?? ''}
+                  onChange={(e) => setField(rate.currency, 'rounding', e.target.value)}
+                />
+              </div>
+              <Button onClick={() => saveRate(rate.currency)}>{t('common.save')}</Button>
+              <p className="text-xs text-muted-foreground sm:col-span-4">
+                {formatConverted(SAMPLE_PRICE, getExchangeRate(rates, BASE_CURRENCY), language)} → {formatConverted(SAMPLE_PRICE, rate, language)}
+                {rate.updatedAt && ` · ${t('currency.updated')} ${new Date(rate.updatedAt).toLocaleDateString()}`}
+              </p>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
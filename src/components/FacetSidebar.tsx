@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import {
+  PRICE_FACET_KEY,
+  hasFacetSelection,
+  type Facet,
+  type FacetSelection,
+  type RangeFacet
+} from '@/lib/facets';
+
+interface FacetSidebarProps {
+  facets: Facet[];
+  selection: FacetSelection;
+  onChange: (selection: FacetSelection) => void;
+  onClear: () => void;
+}
+
+const formatRangeValue = (facet: RangeFacet, value: number, formatPrice: (amount: number) => string) => {
+  if (facet.key === PRICE_FACET_KEY) return formatPrice(value);
+  return facet.unit ? `${value} ${facet.unit}` : String(value);
+};
+
+function RangeFacetControl({ facet, value, onCommit }: {
+  facet: RangeFacet;
+  value?: [number, number];
+  onCommit: (range: [number, number] | null) => void;
+}) {
+  const [draft, setDraft] = useState<[number, number]>(value || [facet.min, facet.max]);
+  const { formatPrice } = useCurrency();
+
+  useEffect(() => {
+    setDraft(value || [facet.min, facet.max]);
+  }, [value, facet.min, facet.max]);
+
+  return (
+    <div className="space-y-3">
+      <Slider
+        min={facet.min}
+        max={facet.max}
+        step={facet.step}
+        value={draft}
+        onValueChange={(range) => setDraft([range[0], range[1]])}
+        onValueCommit={(range) => {
+          const isFullRange = range[0] <= facet.min && range[1] >= facet.max;
+          onCommit(isFullRange ? null : [range[0], range[1]]);
+        }}
+      />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatRangeValue(facet, draft[0], formatPrice)}</span>
+        <span>{formatRangeValue(facet, draft[1], formatPrice)}</span>
+      </div>
+    </div>
+  );
+}
+
+export function FacetSidebar({ facets, selection, onChange, onClear }: FacetSidebarProps) {
+  const { t } = useLanguage();
+
+  const toggleValue = (key: string, value: string, checked: boolean) => {
+    const current = selection.values[key] || [];
+    const nextValues = checked ? [...current, value] : current.filter(v => v !== value);
+    const values = { ...selection.values, [key]: nextValues };
+    if (nextValues.length === 0) {
+      delete values[key];
+    }
+    onChange({ ...selection, values });
+  };
+
+  const setRange = (key: string, range: [number, number] | null) => {
+    const ranges = { ...selection.ranges };
+    if (range) {
+      ranges[key] = range;
+    } else {
+      delete ranges[key];
+    }
+    onChange({ ...selection, ranges });
+  };
+
+  if (facets.length === 0) {
+    return null;
+  }
+
+  return (
+    <aside className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{t('facets.title')}</h3>
+        {hasFacetSelection(selection) && (
+          <Button variant="ghost" size="sm" onClick={onClear} className="h-7 text-xs">
+            {t('facets.clear')}
+          </Button>
+        )}
+      </div>
+
+      {facets.map((facet) => (
+        <div key={facet.key} className="space-y-3 border-t border-border pt-4">
+          <h4 className="text-sm font-medium">
+            {facet.key === PRICE_FACET_KEY ? t('facets.price') : t(`specs.${facet.key}`)}
+          </h4>
+
+          {facet.type === 'range' ? (
+            <RangeFacetControl
+              facet={facet}
+              value={selection.ranges[facet.key]}
+              onCommit={(range) => setRange(facet.key, range)}
+            />
+          ) : (
+            <div className="space-y-2">
+              {facet.options.map((option) => {
+                const id = `facet-${facet.key}-${option.value}`.replace(/\s+/g, '-');
+                const checked = (selection.values[facet.key] || []).includes(option.value);
+                return (
+                  <div key={option.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={id}
+                      checked={checked}
+                      disabled={!checked && option.count === 0}
+                      onCheckedChange={(value) => toggleValue(facet.key, option.value, value === true)}
+                    />
+                    <Label htmlFor={id} className="flex-1 flex justify-between text-sm font-normal cursor-pointer">
+                      <span>{option.label}</span>
+                      <span className="text-muted-foreground">{option.count}</span>
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ))}
+    </aside>
+  );
+}
@@ -3,7 +3,6 @@ import { Link, useNavigate } from 'react-router-dom';
 import {
   ShoppingCart,
   User,
-  Search,
   Menu,
   X,
   Cpu,
@@ -11,9 +10,11 @@ import {
   Settings,
   MessageCircle,
   Bot,
+  MapPin,
+  Wrench,
+  PackageSearch,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -22,32 +23,28 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Badge } from '@/components/ui/badge';
-import { userStorage, cartStorage, type User as UserType } from '@/lib/storage';
+import { userStorage, type User as UserType } from '@/lib/storage';
 import { NotificationBell } from './NotificationBell';
 import { ThemeToggle } from './ThemeToggle';
 import { LanguageToggle } from './LanguageToggle';
+import { CurrencySwitcher } from './CurrencySwitcher';
+import { SearchAutocomplete } from './SearchAutocomplete';
 import { useLanguage } from '@/contexts/LanguageContext';
 
 interface HeaderProps {
-  onSearch: (query: string) => void;
+  onSearch?: (query: string) => void;
   cartItemCount: number;
 }
 
 export function Header({ onSearch, cartItemCount }: HeaderProps) {
-  const [searchQuery, setSearchQuery] = useState('');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const navigate = useNavigate();
   const currentUser: UserType | null = userStorage.getCurrentUser();
   const { t } = useLanguage();
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    onSearch(searchQuery);
-  };
-
   const handleLogout = () => {
+    // The cart stays saved under the account for the next login
     userStorage.logout();
-    cartStorage.clearCart();
     navigate('/');
     window.location.reload(); // Force refresh to update app state
   };
@@ -66,31 +63,33 @@ export function Header({ onSearch, cartItemCount }: HeaderProps) {
           </Link>
 
           {/* Desktop Search Bar */}
-          <form
-            onSubmit={handleSearch}
-            className="hidden md:flex items-center flex-1 max-w-md mx-8"
-          >
-            <div className="relative w-full">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-              <Input
-                type="search"
-                placeholder={t('header.search_placeholder')}
-                value={searchQuery}
-                onChange={e => setSearchQuery(e.target.value)}
-                className="pl-10 bg-secondary/50 border-border focus:border-primary transition-colors"
-              />
-            </div>
-          </form>
+          <SearchAutocomplete
+            onSearch={onSearch}
+            className="hidden md:flex flex-1 max-w-md mx-8"
+            inputClassName="bg-secondary/50 border-border focus:border-primary transition-colors"
+          />
 
           {/* Desktop Navigation */}
           <div className="hidden md:flex items-center space-x-4">
-            {/* Theme & Language */}
+            {/* Theme, Language & Currency */}
             <ThemeToggle />
             <LanguageToggle />
+            <CurrencySwitcher />
 
             {/* Only for non-admin users */}
             {currentUser?.role !== 'admin' && (
               <>
+                {/* PC Builder */}
+                <Link to="/builder">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="relative hover:scale-105 transition-transform"
+                  >
+                    <Wrench className="h-5 w-5" />
+                  </Button>
+                </Link>
+
                 {/* Notifications */}
                 <NotificationBell />
 
@@ -177,6 +176,12 @@ export function Header({ onSearch, cartItemCount }: HeaderProps) {
                           {t('header.orders')}
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link to="/addresses" className="cursor-pointer">
+                          <MapPin className="mr-2 h-4 w-4" />
+                          {t('header.addresses')}
+                        </Link>
+                      </DropdownMenuItem>
                     </>
                   )}
                   <DropdownMenuSeparator />
@@ -188,6 +193,16 @@ export function Header({ onSearch, cartItemCount }: HeaderProps) {
               </DropdownMenu>
             ) : (
               <div className="flex items-center space-x-2">
+                {/* Track a guest order */}
+                <Link to="/order-lookup" title={t('guest.lookup_title')}>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="relative hover:scale-105 transition-transform"
+                  >
+                    <PackageSearch className="h-5 w-5" />
+                  </Button>
+                </Link>
                 <Link to="/login">
                   <Button variant="ghost">{t('header.login')}</Button>
                 </Link>
@@ -213,24 +228,32 @@ export function Header({ onSearch, cartItemCount }: HeaderProps) {
         {isMobileMenuOpen && (
           <div className="md:hidden pb-4 space-y-4 animate-slide-in-right">
             {/* Mobile Search */}
-            <form onSubmit={handleSearch} className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-              <Input
-                type="search"
-                placeholder={t('header.search_placeholder')}
-                value={searchQuery}
-                onChange={e => setSearchQuery(e.target.value)}
-                className="pl-10 bg-secondary/50"
-              />
-            </form>
+            <SearchAutocomplete
+              onSearch={onSearch}
+              onDone={() => setIsMobileMenuOpen(false)}
+              inputClassName="bg-secondary/50"
+            />
 
             {/* Mobile Navigation */}
             <div className="flex flex-col space-y-2">
               <div className="flex items-center justify-center space-x-4 p-2">
                 <ThemeToggle />
                 <LanguageToggle />
+                <CurrencySwitcher />
               </div>
 
+              {/* PC Builder */}
+              {currentUser?.role !== 'admin' && (
+                <Link
+                  to="/builder"
+                  className="flex items-center space-x-2 p-2 rounded-md hover:bg-secondary"
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  <Wrench className="h-5 w-5" />
+                  <span>{t('header.builder')}</span>
+                </Link>
+              )}
+
               {/* Messages */}
               {currentUser?.role !== 'admin' && (
                 <Link
@@ -302,6 +325,14 @@ export function Header({ onSearch, cartItemCount }: HeaderProps) {
                         <ShoppingCart className="h-5 w-5" />
                         <span>{t('header.orders')}</span>
                       </Link>
+                      <Link
+                        to="/addresses"
+                        className="flex items-center space-x-2 p-2 rounded-md hover:bg-secondary"
+                        onClick={() => setIsMobileMenuOpen(false)}
+                      >
+                        <MapPin className="h-5 w-5" />
+                        <span>{t('header.addresses')}</span>
+                      </Link>
                     </>
                   )}
                   <button
@@ -313,26 +344,36 @@ export function Header({ onSearch, cartItemCount }: HeaderProps) {
                   </button>
                 </>
               ) : (
-                <div className="flex space-x-2">
-                  <Link to="/login" className="flex-1">
-                    <Button
-                      variant="ghost"
-                      className="w-full"
-                      onClick={() => setIsMobileMenuOpen(false)}
-                    >
-                      {t('header.login')}
-                    </Button>
-                  </Link>
-                  <Link to="/signup" className="flex-1">
-                    <Button
-                      variant="glow"
-                      className="w-full"
-                      onClick={() => setIsMobileMenuOpen(false)}
-                    >
-                      {t('header.signup')}
-                    </Button>
+                <>
+                  <Link
+                    to="/order-lookup"
+                    className="flex items-center space-x-2 p-2 rounded-md hover:bg-secondary"
+                    onClick={() => setIsMobileMenuOpen(false)}
+                  >
+                    <PackageSearch className="h-5 w-5" />
+                    <span>{t('guest.lookup_title')}</span>
                   </Link>
-                </div>
+                  <div className="flex space-x-2">
+                    <Link to="/login" className="flex-1">
+                      <Button
+                        variant="ghost"
+                        className="w-full"
+                        onClick={() => setIsMobileMenuOpen(false)}
+                      >
+                        {t('header.login')}
+                      </Button>
+                    </Link>
+                    <Link to="/signup" className="flex-1">
+                      <Button
+                        variant="glow"
+                        className="w-full"
+                        onClick={() => setIsMobileMenuOpen(false)}
+                      >
+                        {t('header.signup')}
+                      </Button>
+                    </Link>
+                  </div>
+                </>
               )}
             </div>
           </div>
@@ -0,0 +1,28 @@
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { ORDER_DOCUMENT_TYPES, getOrderDocumentUrl } from '@/lib/documents';
+import type { Order } from '@/lib/storage';
+import { FileText } from 'lucide-react';
+
+interface OrderDocumentLinksProps {
+  order: Order;
+  // Guests prove access with the email they looked the order up by
+  email?: string;
+}
+
+export function OrderDocumentLinks({ order, email }: OrderDocumentLinksProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {ORDER_DOCUMENT_TYPES.map((type) => (
+        <Button key={type} asChild size="sm" variant="outline">
+          <a href={getOrderDocumentUrl(type, order, email)} target="_blank" rel="noopener noreferrer">
+            <FileText className="h-4 w-4 mr-2" />
+            {t(`documents.${type === 'invoice' ? 'invoice' : 'packing_slip'}`)}
+          </a>
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getStatusHistory } from '@/lib/orderStatus';
+import { userStorage, type Order } from '@/lib/storage';
+
+interface OrderTimelineProps {
+  order: Order;
+  // Admins see who made each change; customers only see what happened
+  showActor?: boolean;
+  className?: string;
+}
+
+export function OrderTimeline({ order, showActor = false, className }: OrderTimelineProps) {
+  const { t } = useLanguage();
+  const users = showActor ? userStorage.getUsers() : [];
+  const history = getStatusHistory(order);
+
+  const getActorName = (userId: string) => {
+    if (!userId) return t('order_status.guest_customer');
+    return users.find(u => u.id === userId)?.name || t('order_status.unknown_user');
+  };
+
+  return (
+    <ol className={`relative border-l border-border ml-2 space-y-4 ${className || ''}`}>
+      {history.map((change, index) => {
+        const isCurrent = index === history.length - 1;
+        return (
+          <li key={index} className="ml-4">
+            <span
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                isCurrent ? (change.status === 'cancelled' ? 'bg-destructive' : 'bg-primary') : 'bg-muted-foreground'
+              }`}
+            />
+            <p className={`text-sm ${isCurrent ? 'font-semibold' : 'font-medium'}`}>{t(`orders.${change.status}`)}</p>
+            <p className="text-xs text-muted-foreground">
+              {new Date(change.changedAt).toLocaleString()}
+              {showActor && ` · ${getActorName(change.changedBy)}`}
+            </p>
+            {change.note && <p className="text-sm text-muted-foreground mt-1">{change.note}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
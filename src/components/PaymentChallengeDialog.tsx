@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { confirmPaymentChallenge, voidPayment } from '@/lib/payments';
+import type { Payment } from '@/lib/storage';
+import { ShieldCheck } from 'lucide-react';
+
+interface PaymentChallengeDialogProps {
+  payment: Payment;
+  // Called with the payment once the challenge is passed or failed
+  onResult: (payment: Payment) => void;
+  onCancel: () => void;
+}
+
+// 3-D Secure step for cards whose issuer asks the cardholder to confirm
+export function PaymentChallengeDialog({ payment, onResult, onCancel }: PaymentChallengeDialogProps) {
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { t } = useLanguage();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    const result = await confirmPaymentChallenge(payment, code);
+    setSubmitting(false);
+    onResult(result);
+  };
+
+  const handleCancel = async () => {
+    await voidPayment(payment);
+    onCancel();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && handleCancel()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              {t('payments.challenge_title')}
+            </DialogTitle>
+            <DialogDescription>
+              {t('payments.challenge_description')} {t(`payments.brand_${payment.card.brand}`)} •••• {payment.card.last4}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="challenge-code">{t('payments.challenge_code')}</Label>
+            <Input
+              id="challenge-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleCancel} disabled={submitting}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={submitting}>{t('payments.challenge_confirm')}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import {
+  paymentSettingsStorage,
+  storeCreditStorage,
+  type PaymentSettings,
+  type StoreCreditEntry,
+  type User
+} from '@/lib/storage';
+import { getBaseRate } from '@/lib/currency';
+
+interface PaymentSettingsManagerProps {
+  users: User[];
+  currentUserId: string;
+}
+
+export function PaymentSettingsManager({ users, currentUserId }: PaymentSettingsManagerProps) {
+  const [settings, setSettings] = useState<PaymentSettings>(() => paymentSettingsStorage.getSettings());
+  const [creditUserId, setCreditUserId] = useState('');
+  const [creditAmount, setCreditAmount] = useState('');
+  const [creditNote, setCreditNote] = useState('');
+  const [creditEntries, setCreditEntries] = useState<StoreCreditEntry[]>([]);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const { formatAmount } = useCurrency();
+  const formatBase = (amount: number) => formatAmount(amount, getBaseRate());
+
+  const customers = users.filter(u => u.role !== 'admin');
+  const creditBalance = creditEntries.reduce((sum, entry) => sum + entry.amount, 0);
+
+  const selectCreditUser = (userId: string) => {
+    setCreditUserId(userId);
+    setCreditEntries(storeCreditStorage.getUserEntries(userId));
+  };
+
+  const setBankDetail = (field: keyof PaymentSettings['bankDetails'], value: string) => {
+    setSettings(prev => ({ ...prev, bankDetails: { ...prev.bankDetails, [field]: value } }));
+  };
+
+  const saveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (settings.codSurcharge < 0 || settings.codMaxOrderValue < 0) {
+      toast({ title: t('payment_methods.invalid_settings'), variant: "destructive" });
+      return;
+    }
+    paymentSettingsStorage.saveSettings(settings);
+    toast({ title: t('common.success'), description: t('payment_methods.settings_saved') });
+  };
+
+  // Positive amounts give credit, negative ones take it back
+  const adjustCredit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(creditAmount);
+    if (!creditUserId || isNaN(amount) || amount === 0) {
+      toast({ title: t('payment_methods.invalid_credit'), variant: "destructive" });
+      return;
+    }
+    if (!storeCreditStorage.addEntry(creditUserId, amount, 'adjustment', currentUserId, undefined, creditNote)) {
+      toast({ title: t('payment_methods.invalid_credit'), description: t('payment_methods.credit_below_zero'), variant: "destructive" });
+      return;
+    }
+
+    setCreditAmount('');
+    setCreditNote('');
+    setCreditEntries(storeCreditStorage.getUserEntries(creditUserId));
+    toast({ title: t('common.success'), description: t('payment_methods.credit_adjusted') });
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('payment_methods.settings')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={saveSettings} className="space-y-6">
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="cod-enabled"
+                  checked={settings.codEnabled}
+                  onCheckedChange={(checked) => setSettings(prev => ({ ...prev, codEnabled: checked }))}
+                />
+                <Label htmlFor="cod-enabled">{t('payment_methods.cod')}</Label>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="cod-surcharge">{t('payment_methods.cod_fee')} ($)</Label>
+                  <Input
+                    id="cod-surcharge"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={settings.codSurcharge}
+                    onChange={(e) => setSettings(prev => ({ ...prev, codSurcharge: parseFloat(e.target.value) || 0 }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cod-max">{t('payment_methods.cod_max_order')} ($)</Label>
+                  <Input
+                    id="cod-max"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={settings.codMaxOrderValue}
+                    onChange={(e) => setSettings(prev => ({ ...prev, codMaxOrderValue: parseFloat(e.target.value) || 0 }))}
+                  />
+                  <p className="text-xs text-muted-foreground">{t('payment_methods.no_limit_hint')}</p>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="bank-enabled"
+                  checked={settings.bankTransferEnabled}
+                  onCheckedChange={(checked) => setSettings(prev => ({ ...prev, bankTransferEnabled: checked }))}
+                />
+                <Label htmlFor="bank-enabled">{t('payment_methods.bank_transfer')}</Label>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {([
+                  ['accountName', 'account_name'],
+                  ['bankName', 'bank_name'],
+                  ['iban', 'iban'],
+                  ['swift', 'swift']
+                ] as [keyof PaymentSettings['bankDetails'], string][]).map(([field, label]) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`bank-${field}`}>{t(`payment_methods.${label}`)}</Label>
+                    <Input
+                      id={`bank-${field}`}
+                      value={settings.bankDetails[field]}
+                      onChange={(e) => setBankDetail(field, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full">{t('common.save')}</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('payment_methods.store_credit')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={adjustCredit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t('admin.user')}</Label>
+              <Select value={creditUserId} onValueChange={selectCreditUser}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('admin.choose_user')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>{user.name} ({user.email})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {creditUserId && (
+              <p className="text-sm">
+                {t('payment_methods.balance')}: <span className="font-semibold">{formatBase(creditBalance)}</span>
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="credit-amount">{t('payment_methods.credit_amount')}</Label>
+                <Input
+                  id="credit-amount"
+                  type="number"
+                  step="0.01"
+                  value={creditAmount}
+                  onChange={(e) => setCreditAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="credit-note">{t('payment_methods.credit_note')}</Label>
+                <Input id="credit-note" value={creditNote} onChange={(e) => setCreditNote(e.target.value)} />
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={!creditUserId}>{t('payment_methods.adjust_credit')}</Button>
+          </form>
+
+          {creditEntries.length > 0 && (
+            <div className="space-y-2 border-t pt-4">
+              {[...creditEntries].reverse().map((entry) => (
+                <div key={entry.id} className="flex justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground">
+                    {new Date(entry.createdAt).toLocaleDateString()} · {t(`payment_methods.credit_${entry.reason}`)}
+                    {entry.orderId && ` #${entry.orderId.slice(0, 8)}`}
+                    {entry.note && ` · ${entry.note}`}
+                  </span>
+                  <span className={entry.amount < 0 ? 'text-destructive' : 'text-green-500'}>
+                    {entry.amount < 0 ? '-' : '+'}{formatBase(Math.abs(entry.amount))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { getBaseRate } from '@/lib/currency';
+import type { Payment } from '@/lib/storage';
+import { CreditCard } from 'lucide-react';
+
+interface PaymentSummaryProps {
+  payment: Payment;
+  // Admins can capture an authorization before the order ships
+  onCapture?: (payment: Payment) => void;
+}
+
+export function PaymentSummary({ payment, onCapture }: PaymentSummaryProps) {
+  const { t } = useLanguage();
+  const { formatAmount } = useCurrency();
+  // Payments are settled in the base currency
+  const format = (amount: number) => formatAmount(amount, getBaseRate());
+
+  return (
+    <div className="p-3 border rounded-lg text-sm space-y-1">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="flex items-center gap-2 font-medium">
+          <CreditCard className="h-4 w-4" />
+          {t(`payments.brand_${payment.card.brand}`)} •••• {payment.card.last4}
+        </span>
+        <Badge variant={payment.status === 'captured' ? 'default' : 'secondary'}>
+          {t(`payments.status_${payment.status}`)}
+        </Badge>
+      </div>
+      <p className="text-muted-foreground">
+        {t('payments.authorized_amount')}: {format(payment.amount)}
+        {payment.capturedAmount > 0 && ` · ${t('payments.captured_amount')}: ${format(payment.capturedAmount)}`}
+        {payment.refundedAmount > 0 && ` · ${t('payments.refunded_amount')}: ${format(payment.refundedAmount)}`}
+      </p>
+      {onCapture && payment.status === 'authorized' && (
+        <Button size="sm" variant="outline" onClick={() => onCapture(payment)}>
+          {t('payments.capture')}
+        </Button>
+      )}
+    </div>
+  );
+}
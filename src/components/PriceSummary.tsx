@@ -0,0 +1,72 @@
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import type { PriceBreakdown } from '@/lib/pricing';
+import type { ExchangeRate } from '@/lib/storage';
+
+interface PriceSummaryProps {
+  pricing: PriceBreakdown;
+  // Shipping and tax aren't known until a destination and method are picked at checkout
+  destinationPending?: boolean;
+  // The base currency for a placed order; otherwise prices show in the display currency
+  exchangeRate?: ExchangeRate;
+  className?: string;
+}
+
+export function PriceSummary({ pricing, destinationPending = false, exchangeRate, className }: PriceSummaryProps) {
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+  const format = (amount: number) => formatPrice(amount, exchangeRate);
+
+  return (
+    <div className={`space-y-2 text-sm ${className || ''}`}>
+      <div className="flex justify-between">
+        <span>{t('checkout.subtotal')}</span>
+        <span>{format(pricing.subtotal)}</span>
+      </div>
+      {pricing.discounts.map((discount) => (
+        <div key={discount.promotionId || discount.label} className="flex justify-between text-green-500">
+          <span>{discount.label}</span>
+          <span>-{format(discount.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <span>
+          {t('checkout.shipping')}
+          {pricing.shippingMethod && (
+            <span className="text-muted-foreground"> ({pricing.shippingName || t(`checkout.${pricing.shippingMethod}`)})</span>
+          )}
+        </span>
+        <span>{destinationPending ? t('pricing.calculated_at_checkout') : format(pricing.shipping)}</span>
+      </div>
+      {!!pricing.paymentSurcharge && (
+        <div className="flex justify-between">
+          <span>{t('payment_methods.cod_fee')}</span>
+          <span>{format(pricing.paymentSurcharge)}</span>
+        </div>
+      )}
+      {destinationPending ? (
+        <div className="flex justify-between">
+          <span>{t('pricing.tax')}</span>
+          <span>{t('pricing.calculated_at_checkout')}</span>
+        </div>
+      ) : pricing.taxes ? (
+        // Included taxes are already in the prices, so they're shown but not added
+        pricing.taxes.map((line) => (
+          <div key={`${line.name}-${line.region || ''}`} className={`flex justify-between ${line.inclusive ? 'text-muted-foreground' : ''}`}>
+            <span>{line.inclusive ? `${t('tax.includes')} ` : ''}{line.name} ({line.rate}%)</span>
+            <span>{format(line.amount)}</span>
+          </div>
+        ))
+      ) : (
+        <div className="flex justify-between">
+          <span>{t('pricing.tax')} ({(pricing.taxRate * 100).toFixed(0)}%)</span>
+          <span>{format(pricing.tax)}</span>
+        </div>
+      )}
+      <div className="border-t pt-2 flex justify-between font-bold text-lg">
+        <span>{t('checkout.total')}</span>
+        <span>{format(pricing.total)}</span>
+      </div>
+    </div>
+  );
+}
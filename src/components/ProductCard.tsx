@@ -1,11 +1,17 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { ShoppingCart, Plus, Zap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { toast } from '@/hooks/use-toast';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { cartStorage, type Product } from '@/lib/storage';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useCompare } from '@/contexts/CompareContext';
+import { cartStorage, MAX_COMPARE_ITEMS, type Product } from '@/lib/storage';
+import { formatSpecValue, getOrderedSpecs } from '@/lib/specs';
 
 interface ProductCardProps {
   product: Product;
@@ -15,12 +21,35 @@ interface ProductCardProps {
 export function ProductCard({ product, onAddToCart }: ProductCardProps) {
   const [isAdding, setIsAdding] = useState(false);
   const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+  const { isComparing, addToCompare, removeFromCompare } = useCompare();
+
+  const handleCompareChange = (checked: boolean) => {
+    if (!checked) {
+      removeFromCompare(product.id);
+      return;
+    }
+    if (!addToCompare(product.id)) {
+      toast({
+        title: t('compare.limit_reached'),
+        description: `${t('compare.limit_description')} (${MAX_COMPARE_ITEMS})`,
+        variant: "destructive",
+      });
+    }
+  };
 
   const handleAddToCart = async () => {
     setIsAdding(true);
     
     try {
-      cartStorage.addToCart(product.id, product.price, 1);
+      if (cartStorage.addToCart(product.id, product.price, 1) === 0) {
+        toast({
+          title: t('stock.limited_title'),
+          description: t('stock.unavailable'),
+          variant: "destructive",
+        });
+        return;
+      }
       
       toast({
         title: t('common.success'),
@@ -48,7 +77,7 @@ export function ProductCard({ product, onAddToCart }: ProductCardProps) {
         </Badge>
       )}
       
-      <div className="aspect-square relative overflow-hidden bg-muted">
+      <Link to={`/product/${product.id}`} className="block aspect-square relative overflow-hidden bg-muted">
         <img
           src={product.imageUrl}
           alt={product.name}
@@ -71,11 +100,11 @@ export function ProductCard({ product, onAddToCart }: ProductCardProps) {
             </Badge>
           </div>
         )}
-      </div>
+      </Link>
 
       <CardContent className="p-3 sm:p-4">
         <h3 className="font-bold text-base sm:text-lg mb-2 line-clamp-2 group-hover:text-primary transition-colors">
-          {product.name}
+          <Link to={`/product/${product.id}`}>{product.name}</Link>
         </h3>
         
         <p className="text-muted-foreground text-xs sm:text-sm mb-3 line-clamp-2">
@@ -84,23 +113,34 @@ export function ProductCard({ product, onAddToCart }: ProductCardProps) {
         
         {/* Key Specs */}
         <div className="space-y-1 mb-4">
-          {Object.entries(product.specs).slice(0, 2).map(([key, value]) => (
+          {getOrderedSpecs(product.categoryId, product.specs).slice(0, 2).map(([key, value]) => (
             <div key={key} className="flex justify-between text-xs">
               <span className="text-muted-foreground capitalize">{key}:</span>
-              <span className="font-medium truncate ml-2">{value}</span>
+              <span className="font-medium truncate ml-2">{formatSpecValue(product.categoryId, key, value)}</span>
             </div>
           ))}
         </div>
         
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
           <div className="text-xl sm:text-2xl font-bold text-primary">
-            ${product.price.toLocaleString()}
+            {formatPrice(product.price)}
           </div>
           
           <div className="text-xs text-muted-foreground">
             {product.inStock} {t('product.in_stock')}
           </div>
         </div>
+
+        <div className="flex items-center gap-2 mt-3">
+          <Checkbox
+            id={`compare-${product.id}`}
+            checked={isComparing(product.id)}
+            onCheckedChange={(checked) => handleCompareChange(checked === true)}
+          />
+          <Label htmlFor={`compare-${product.id}`} className="text-xs font-normal cursor-pointer">
+            {t('compare.add')}
+          </Label>
+        </div>
       </CardContent>
 
       <CardFooter className="p-3 sm:p-4 pt-0">
@@ -0,0 +1,58 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { Product, ProductDimensions } from '@/lib/storage';
+
+type ShippingSize = Pick<Product, 'weightKg' | 'dimensionsCm'>;
+
+interface ProductShippingFieldsProps {
+  value: ShippingSize;
+  idPrefix: string;
+  onChange: (value: ShippingSize) => void;
+}
+
+const DIMENSIONS: (keyof ProductDimensions)[] = ['length', 'width', 'height'];
+
+const toOptionalNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+};
+
+export function ProductShippingFields({ value, idPrefix, onChange }: ProductShippingFieldsProps) {
+  const { t } = useLanguage();
+
+  // Dimensions only count once all three are known
+  const setDimension = (key: keyof ProductDimensions, input: string) => {
+    const next = { length: 0, width: 0, height: 0, ...value.dimensionsCm, [key]: toOptionalNumber(input) || 0 };
+    onChange({ ...value, dimensionsCm: DIMENSIONS.some(d => next[d] > 0) ? next : undefined });
+  };
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-weight`}>{t('shipping_rates.weight_kg')}</Label>
+        <Input
+          id={`${idPrefix}-weight`}
+          type="number"
+          min="0"
+          step="0.01"
+          value={value.weightKg ?? ''}
+          onChange={(e) => onChange({ ...value, weightKg: toOptionalNumber(e.target.value) })}
+        />
+      </div>
+      {DIMENSIONS.map((key) => (
+        <div key={key} className="space-y-2">
+          <Label htmlFor={`${idPrefix}-${key}`}>{t(`shipping_rates.${key}_cm`)}</Label>
+          <Input
+            id={`${idPrefix}-${key}`}
+            type="number"
+            min="0"
+            step="0.1"
+            value={value.dimensionsCm?.[key] || ''}
+            onChange={(e) => setDimension(key, e.target.value)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getSpecSchema, type ProductSpecs, type SpecError, type SpecField } from '@/lib/specs';
+
+interface ProductSpecFieldsProps {
+  categoryId: string;
+  specs: ProductSpecs;
+  errors?: SpecError[];
+  idPrefix: string;
+  onChange: (specs: ProductSpecs) => void;
+}
+
+export function ProductSpecFields({ categoryId, specs, errors = [], idPrefix, onChange }: ProductSpecFieldsProps) {
+  const { t } = useLanguage();
+  const schema = getSpecSchema(categoryId);
+
+  if (schema.length === 0) {
+    return null;
+  }
+
+  const setValue = (key: string, value: string | number | undefined) => {
+    const next = { ...specs };
+    if (value === undefined || value === '') {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  const renderInput = (field: SpecField, id: string) => {
+    const value = specs[field.key];
+
+    if (field.type === 'enum') {
+      return (
+        <Select value={value === undefined ? '' : String(value)} onValueChange={(v) => setValue(field.key, v)}>
+          <SelectTrigger id={id}>
+            <SelectValue placeholder={t('admin.select_option')} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (field.type === 'number') {
+      return (
+        <Input
+          id={id}
+          type="number"
+          step="any"
+          value={value === undefined ? '' : value}
+          onChange={(e) => setValue(field.key, e.target.value === '' ? undefined : parseFloat(e.target.value))}
+        />
+      );
+    }
+
+    return (
+      <Input
+        id={id}
+        value={value === undefined ? '' : String(value)}
+        onChange={(e) => setValue(field.key, e.target.value)}
+      />
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {schema.map((field) => {
+        const id = `${idPrefix}-spec-${field.key.replace(/\s+/g, '-')}`;
+        const error = errors.find(e => e.key === field.key);
+        const unit = field.unit || field.prefix;
+
+        return (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={id}>
+              {t(`specs.${field.key}`)}
+              {unit && <span className="text-muted-foreground"> ({unit})</span>}
+              {field.required && <span className="text-destructive"> *</span>}
+            </Label>
+            {renderInput(field, id)}
+            {error && (
+              <p className="text-xs text-destructive">{t(`spec_errors.${error.code}`)}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { countPromotionUses, isPromotionExpired } from '@/lib/promotions';
+import { getBaseRate } from '@/lib/currency';
+import { promotionStorage, type Category, type Order, type Product, type Promotion } from '@/lib/storage';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+
+interface PromotionManagerProps {
+  products: Product[];
+  categories: Category[];
+  // Usage counts come from the orders that applied each promotion
+  orders: Order[];
+}
+
+const emptyForm = {
+  name: '',
+  code: '',
+  type: 'percentage' as Promotion['type'],
+  value: '',
+  scope: 'order' as Promotion['scope'],
+  targetIds: [] as string[],
+  minCartValue: '',
+  usageLimit: '',
+  perUserLimit: '',
+  expiresAt: '',
+  active: true
+};
+
+const toOptionalNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+};
+
+export function PromotionManager({ products, categories, orders }: PromotionManagerProps) {
+  const [promotions, setPromotions] = useState<Promotion[]>(() => promotionStorage.getPromotions());
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const { formatAmount } = useCurrency();
+  const formatBase = (amount: number) => formatAmount(amount, getBaseRate());
+
+  const targetOptions = form.scope === 'product'
+    ? products.map(p => ({ id: p.id, label: p.name }))
+    : categories.map(c => ({ id: c.id, label: t(`categories.${c.name}`) || c.name }));
+
+  const toggleTarget = (id: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      targetIds: checked ? [...prev.targetIds, id] : prev.targetIds.filter(targetId => targetId !== id)
+    }));
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(form.value);
+    const needsTargets = form.scope !== 'order';
+    if (isNaN(value) || value <= 0 || (form.type === 'percentage' && value > 100)) {
+      toast({ title: t('promotions.invalid'), description: t('promotions.invalid_value'), variant: "destructive" });
+      return;
+    }
+    if (needsTargets && form.targetIds.length < (form.scope === 'bundle' ? 2 : 1)) {
+      toast({ title: t('promotions.invalid'), description: t(`promotions.invalid_targets_${form.scope}`), variant: "destructive" });
+      return;
+    }
+
+    const promotion = {
+      name: form.name.trim(),
+      code: form.code,
+      type: form.type,
+      value,
+      scope: form.scope,
+      targetIds: needsTargets ? form.targetIds : [],
+      minCartValue: toOptionalNumber(form.minCartValue),
+      usageLimit: toOptionalNumber(form.usageLimit),
+      perUserLimit: toOptionalNumber(form.perUserLimit),
+      expiresAt: form.expiresAt || undefined,
+      active: form.active
+    };
+
+    const saved = editingId
+      ? promotionStorage.updatePromotion(editingId, promotion)
+      : !!promotionStorage.addPromotion(promotion);
+    if (!saved) {
+      toast({ title: t('promotions.invalid'), description: t('promotions.code_taken'), variant: "destructive" });
+      return;
+    }
+
+    setPromotions(promotionStorage.getPromotions());
+    resetForm();
+    toast({ title: t('common.success'), description: t('promotions.saved') });
+  };
+
+  const startEditing = (promotion: Promotion) => {
+    setEditingId(promotion.id);
+    setForm({
+      name: promotion.name,
+      code: promotion.code || '',
+      type: promotion.type,
+      value: String(promotion.value),
+      scope: promotion.scope,
+      targetIds: promotion.targetIds,
+      minCartValue: promotion.minCartValue ? String(promotion.minCartValue) : '',
+      usageLimit: promotion.usageLimit ? String(promotion.usageLimit) : '',
+      perUserLimit: promotion.perUserLimit ? String(promotion.perUserLimit) : '',
+      expiresAt: promotion.expiresAt || '',
+      active: promotion.active
+    });
+  };
+
+  const toggleActive = (promotion: Promotion, active: boolean) => {
+    promotionStorage.updatePromotion(promotion.id, { active });
+    setPromotions(promotionStorage.getPromotions());
+  };
+
+  const deletePromotion = (id: string) => {
+    promotionStorage.deletePromotion(id);
+    setPromotions(promotionStorage.getPromotions());
+    if (editingId === id) {
+      resetForm();
+    }
+  };
+
+  const getTargetNames = (promotion: Promotion): string => {
+    return promotion.targetIds.map(id => {
+      if (promotion.scope === 'product') {
+        return products.find(p => p.id === id)?.name || id;
+      }
+      const category = categories.find(c => c.id === id);
+      return category ? t(`categories.${category.name}`) || category.name : id;
+    }).join(promotion.scope === 'bundle' ? ' + ' : ', ');
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? t('promotions.edit') : t('promotions.add')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-name">{t('promotions.name')}</Label>
+                <Input
+                  id="promo-name"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-code">{t('promotions.code')}</Label>
+                <Input
+                  id="promo-code"
+                  value={form.code}
+                  onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                  placeholder={t('promotions.code_optional')}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t('promotions.type')}</Label>
+                <Select value={form.type} onValueChange={(value) => setForm(prev => ({ ...prev, type: value as Promotion['type'] }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">{t('promotions.percentage')}</SelectItem>
+                    <SelectItem value="fixed">{t('promotions.fixed')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-value">{form.type === 'percentage' ? t('promotions.percent_off') : t('promotions.amount_off')}</Label>
+                <Input
+                  id="promo-value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.value}
+                  onChange={(e) => setForm(prev => ({ ...prev, value: e.target.value }))}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('promotions.scope')}</Label>
+              <Select
+                value={form.scope}
+                onValueChange={(value) => setForm(prev => ({ ...prev, scope: value as Promotion['scope'], targetIds: [] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="order">{t('promotions.scope_order')}</SelectItem>
+                  <SelectItem value="category">{t('promotions.scope_category')}</SelectItem>
+                  <SelectItem value="product">{t('promotions.scope_product')}</SelectItem>
+                  <SelectItem value="bundle">{t('promotions.scope_bundle')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.scope !== 'order' && (
+              <div className="space-y-2">
+                <Label>{form.scope === 'product' ? t('promotions.products') : t('promotions.categories')}</Label>
+                <div className="max-h-48 overflow-y-auto rounded-md border p-3 space-y-2">
+                  {targetOptions.map((option) => (
+                    <label key={option.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={form.targetIds.includes(option.id)}
+                        onCheckedChange={(checked) => toggleTarget(option.id, checked === true)}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-min">{t('promotions.min_cart')}</Label>
+                <Input
+                  id="promo-min"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.minCartValue}
+                  onChange={(e) => setForm(prev => ({ ...prev, minCartValue: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-expires">{t('promotions.expires')}</Label>
+                <Input
+                  id="promo-expires"
+                  type="date"
+                  value={form.expiresAt}
+                  onChange={(e) => setForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-usage">{t('promotions.usage_limit')}</Label>
+                <Input
+                  id="promo-usage"
+                  type="number"
+                  min="0"
+                  value={form.usageLimit}
+                  onChange={(e) => setForm(prev => ({ ...prev, usageLimit: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-per-user">{t('promotions.per_user_limit')}</Label>
+                <Input
+                  id="promo-per-user"
+                  type="number"
+                  min="0"
+                  value={form.perUserLimit}
+                  onChange={(e) => setForm(prev => ({ ...prev, perUserLimit: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="promo-active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, active: checked }))}
+              />
+              <Label htmlFor="promo-active">{t('promotions.active')}</Label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1">
+                <Plus className="mr-2 h-4 w-4" />
+                {editingId ? t('promotions.save') : t('promotions.add')}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  {t('common.cancel')}
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('promotions.title')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {promotions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('promotions.none')}</p>
+          ) : (
+            <div className="space-y-4">
+              {promotions.map((promotion) => {
+                const uses = countPromotionUses(orders, promotion.id);
+                return (
+                  <div key={promotion.id} className="p-4 border rounded-lg space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <h3 className="font-semibold">{promotion.name}</h3>
+                        <div className="flex flex-wrap gap-2 mt-1">
+                          <Badge variant="outline">{promotion.code || t('promotions.automatic')}</Badge>
+                          <Badge variant="secondary">
+                            {promotion.type === 'percentage' ? `${promotion.value}%` : formatBase(promotion.value)}
+                          </Badge>
+                          {isPromotionExpired(promotion) && (
+                            <Badge variant="destructive">{t('promotions.expired')}</Badge>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Switch
+                          checked={promotion.active}
+                          onCheckedChange={(checked) => toggleActive(promotion, checked)}
+                          aria-label={t('promotions.active')}
+                        />
+                        <Button variant="ghost" size="icon" onClick={() => startEditing(promotion)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => deletePromotion(promotion.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {t(`promotions.scope_${promotion.scope}`)}
+                      {promotion.targetIds.length > 0 && `: ${getTargetNames(promotion)}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {t('promotions.uses')}: {uses}{promotion.usageLimit ? ` / ${promotion.usageLimit}` : ''}
+                      {promotion.perUserLimit ? ` · ${t('promotions.per_user_limit')}: ${promotion.perUserLimit}` : ''}
+                      {promotion.minCartValue ? ` · ${t('promotions.min_cart')}: ${formatBase(promotion.minCartValue)}` : ''}
+                      {promotion.expiresAt ? ` · ${t('promotions.expires')}: ${promotion.expiresAt}` : ''}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { getRefundLimit, getSuggestedRefund } from '@/lib/returns';
+import { getBaseRate } from '@/lib/currency';
+import { refundPayment } from '@/lib/payments';
+import { roundCents } from '@/lib/pricing';
+import {
+  paymentStorage,
+  returnStorage,
+  storeCreditStorage,
+  type Order,
+  type Product,
+  type ReturnRequest,
+  type StoreCreditEntry,
+  type User
+} from '@/lib/storage';
+import { Check, X } from 'lucide-react';
+
+interface ReturnManagerProps {
+  products: Product[];
+  orders: Order[];
+  users: User[];
+  currentUserId: string;
+  // Restocking changes product stock, which the dashboard holds
+  onResolved: () => void;
+}
+
+interface ResolutionDraft {
+  refund: string;
+  restock: boolean;
+  note: string;
+}
+
+export function ReturnManager({ products, orders, users, currentUserId, onResolved }: ReturnManagerProps) {
+  const [returns, setReturns] = useState<ReturnRequest[]>(() => returnStorage.getReturns());
+  const [drafts, setDrafts] = useState<Record<string, ResolutionDraft>>({});
+  // Set while a resolution waits on the card refund, so it can't be sent twice
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const { formatAmount } = useCurrency();
+  const formatBase = (amount: number) => formatAmount(amount, getBaseRate());
+
+  // Open requests first, then the most recent
+  const sortedReturns = [...returns].sort((a, b) => {
+    if ((a.status === 'requested') !== (b.status === 'requested')) {
+      return a.status === 'requested' ? -1 : 1;
+    }
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  });
+  const totalRefunded = returns.reduce((sum, r) => sum + (r.refundAmount || 0), 0);
+
+  const getDraft = (request: ReturnRequest, order?: Order): ResolutionDraft => {
+    return drafts[request.id] || {
+      refund: order ? getSuggestedRefund(order, request.lines).toFixed(2) : '0',
+      restock: true,
+      note: ''
+    };
+  };
+
+  const updateDraft = (request: ReturnRequest, order: Order | undefined, updates: Partial<ResolutionDraft>) => {
+    setDrafts(prev => ({ ...prev, [request.id]: { ...getDraft(request, order), ...updates } }));
+  };
+
+  const resolve = async (request: ReturnRequest, order: Order | undefined, status: 'approved' | 'rejected') => {
+    if (resolvingId) return;
+    const draft = getDraft(request, order);
+    const refund = parseFloat(draft.refund);
+    if (status === 'approved' && (isNaN(refund) || refund < 0)) {
+      toast({ title: t('returns.invalid_refund'), variant: "destructive" });
+      return;
+    }
+    const refundLimit = order ? getRefundLimit(order, request.lines, returnStorage.getReturns()) : 0;
+    if (status === 'approved' && refund > refundLimit) {
+      toast({
+        title: t('returns.invalid_refund'),
+        description: `${t('returns.refund_over_limit')} ${formatBase(refundLimit)}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Storage has the last word on whether the return is still open and how
+    // much can go back, before any money moves
+    const approvedRefund = returnStorage.getResolutionRefund(request.id, status, refund);
+    if (approvedRefund === null) {
+      setReturns(returnStorage.getReturns());
+      toast({ title: t('returns.resolve_failed'), variant: "destructive" });
+      return;
+    }
+
+    // The refund goes back the way the order was paid: to the card, or to
+    // store credit. It's made before the return is approved, so the return
+    // records and announces what was actually refunded.
+    setResolvingId(request.id);
+    try {
+      let refunded = approvedRefund;
+      let creditEntry: StoreCreditEntry | null = null;
+      const payment = paymentStorage.getOrderPayment(request.orderId);
+      if (refunded > 0 && payment) {
+        const updated = await refundPayment(payment, refunded);
+        if (!updated) {
+          toast({ title: t('returns.refund_failed'), description: t('returns.refund_failed_hint'), variant: "destructive" });
+          return;
+        }
+        refunded = roundCents(updated.refundedAmount - payment.refundedAmount);
+      } else if (refunded > 0 && order?.paymentMethod === 'store_credit' && order.userId) {
+        creditEntry = storeCreditStorage.addEntry(order.userId, refunded, 'refund', currentUserId, order.id);
+        if (!creditEntry) {
+          toast({ title: t('returns.refund_failed'), description: t('returns.refund_failed_hint'), variant: "destructive" });
+          return;
+        }
+      }
+
+      if (!returnStorage.resolveReturn(request.id, status, currentUserId, refunded, draft.restock, draft.note)) {
+        if (creditEntry) {
+          storeCreditStorage.removeEntry(creditEntry.id);
+        }
+        setReturns(returnStorage.getReturns());
+        toast({ title: t('returns.resolve_failed'), variant: "destructive" });
+        return;
+      }
+    } finally {
+      setResolvingId(null);
+    }
+    setReturns(returnStorage.getReturns());
+    onResolved();
+    toast({
+      title: t(`returns.status_${status}`),
+      description: `${t('orders.order_id')} #${request.orderId.slice(0, 8)}`
+    });
+  };
+
+  const getCustomer = (order?: Order) => {
+    const user = users.find(u => u.id === order?.userId);
+    return user ? `${user.name} (${user.email})` : `${t('guest.guest')} (${order?.guestEmail || '—'})`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          {t('returns.title')}
+          <span className="text-sm font-normal text-muted-foreground">
+            {t('returns.total_refunded')}: {formatBase(totalRefunded)}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {sortedReturns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('returns.none')}</p>
+        ) : (
+          <div className="space-y-4">
+            {sortedReturns.map((request) => {
+              const order = orders.find(o => o.id === request.orderId);
+              const draft = getDraft(request, order);
+              return (
+                <div key={request.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <h3 className="font-semibold">{t('admin.order_id')}{request.orderId.slice(0, 8)}</h3>
+                      <p className="text-sm text-muted-foreground">{t('admin.customer')}: {getCustomer(order)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {t('admin.date')}: {new Date(request.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Badge variant={request.status === 'rejected' ? 'destructive' : request.status === 'approved' ? 'default' : 'secondary'}>
+                      {t(`returns.status_${request.status}`)}
+                    </Badge>
+                  </div>
+
+                  <div className="space-y-1 text-sm">
+                    {request.lines.map((line) => (
+                      <div key={line.productId}>
+                        <span>{products.find(p => p.id === line.productId)?.name || line.productId} × {line.quantity}</span>
+                        <span className="text-muted-foreground"> · {t(`returns.reason_${line.reason}`)}</span>
+                        {line.comment && <p className="text-muted-foreground">“{line.comment}”</p>}
+                      </div>
+                    ))}
+                  </div>
+
+                  {request.status === 'requested' ? (
+                    <div className="grid sm:grid-cols-[8rem_1fr] gap-3 items-end border-t pt-3">
+                      <div className="space-y-1">
+                        <Label htmlFor={`refund-${request.id}`}>{t('returns.refund')} ($)</Label>
+                        <Input
+                          id={`refund-${request.id}`}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={draft.refund}
+                          onChange={(e) => updateDraft(request, order, { refund: e.target.value })}
+                        />
+                      </div>
+                      <Input
+                        placeholder={t('order_status.note_placeholder')}
+                        value={draft.note}
+                        onChange={(e) => updateDraft(request, order, { note: e.target.value })}
+                      />
+                      <label className="flex items-center gap-2 text-sm cursor-pointer sm:col-span-2">
+                        <Checkbox
+                          checked={draft.restock}
+                          onCheckedChange={(checked) => updateDraft(request, order, { restock: checked === true })}
+                        />
+                        {t('returns.restock')}
+                      </label>
+                      <div className="flex gap-2 sm:col-span-2">
+                        <Button size="sm" disabled={resolvingId !== null} onClick={() => resolve(request, order, 'approved')}>
+                          <Check className="h-4 w-4 mr-2" />
+                          {t('returns.approve')}
+                        </Button>
+                        <Button size="sm" variant="destructive" disabled={resolvingId !== null} onClick={() => resolve(request, order, 'rejected')}>
+                          <X className="h-4 w-4 mr-2" />
+                          {t('returns.reject')}
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground border-t pt-3 space-y-1">
+                      {request.status === 'approved' && (
+                        <p>
+                          {t('returns.refund')}: {formatBase(request.refundAmount || 0)}
+                          {request.restocked && ` · ${t('returns.restocked')}`}
+                        </p>
+                      )}
+                      {request.resolvedAt && (
+                        <p>
+                          {new Date(request.resolvedAt).toLocaleString()} · {users.find(u => u.id === request.resolvedBy)?.name || t('order_status.unknown_user')}
+                        </p>
+                      )}
+                      {request.adminNote && <p>{request.adminNote}</p>}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
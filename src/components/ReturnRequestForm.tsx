@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { RETURN_REASONS, getSuggestedRefund } from '@/lib/returns';
+import { getBaseRate } from '@/lib/currency';
+import { returnStorage, type Order, type Product, type ReturnLine, type ReturnReason } from '@/lib/storage';
+
+interface ReturnRequestFormProps {
+  order: Order;
+  products: Product[];
+  onSubmitted: () => void;
+  onCancel: () => void;
+}
+
+export function ReturnRequestForm({ order, products, onSubmitted, onCancel }: ReturnRequestFormProps) {
+  // One editable line per product on the order, starting with nothing returned
+  const [lines, setLines] = useState<ReturnLine[]>(() =>
+    order.items.map(item => ({ productId: item.productId, quantity: 0, reason: 'defective' as ReturnReason, comment: '' }))
+  );
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+
+  const updateLine = (productId: string, updates: Partial<ReturnLine>) => {
+    setLines(prev => prev.map(line => line.productId === productId ? { ...line, ...updates } : line));
+  };
+
+  const selectedLines = lines.filter(line => line.quantity > 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const request = returnStorage.requestReturn(
+      order.id,
+      selectedLines.map(line => ({ ...line, comment: line.comment?.trim() || undefined }))
+    );
+    if (!request) {
+      toast({
+        title: t('returns.request_failed'),
+        description: t('returns.request_failed_description'),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: t('returns.requested_title'),
+      description: t('returns.requested_description')
+    });
+    onSubmitted();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {lines.map((line) => {
+        const product = products.find(p => p.id === line.productId);
+        const returnable = returnStorage.getReturnableQuantity(order, line.productId);
+        return (
+          <div key={line.productId} className="p-3 border rounded-lg space-y-3">
+            <div className="flex justify-between gap-2 text-sm">
+              <span className="font-medium">{product?.name || line.productId}</span>
+              <span className="text-muted-foreground">{t('returns.returnable')}: {returnable}</span>
+            </div>
+            {returnable > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-[6rem_1fr] gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`return-qty-${line.productId}`}>{t('returns.quantity')}</Label>
+                  <Input
+                    id={`return-qty-${line.productId}`}
+                    type="number"
+                    min="0"
+                    max={returnable}
+                    value={line.quantity}
+                    onChange={(e) => updateLine(line.productId, {
+                      quantity: Math.min(returnable, Math.max(0, parseInt(e.target.value) || 0))
+                    })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>{t('returns.reason')}</Label>
+                  <Select
+                    value={line.reason}
+                    onValueChange={(value) => updateLine(line.productId, { reason: value as ReturnReason })}
+                    disabled={line.quantity === 0}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RETURN_REASONS.map((reason) => (
+                        <SelectItem key={reason} value={reason}>{t(`returns.reason_${reason}`)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {line.quantity > 0 && (
+                  <Input
+                    className="sm:col-span-2"
+                    placeholder={t('returns.comment_placeholder')}
+                    value={line.comment}
+                    onChange={(e) => updateLine(line.productId, { comment: e.target.value })}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {selectedLines.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t('returns.estimated_refund')}: {formatPrice(getSuggestedRefund(order, selectedLines), getBaseRate())}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={selectedLines.length === 0}>
+          {t('returns.submit')}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          {t('common.cancel')}
+        </Button>
+      </div>
+    </form>
+  );
+}
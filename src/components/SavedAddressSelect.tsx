@@ -0,0 +1,38 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { formatAddress } from '@/lib/address';
+import type { SavedAddress } from '@/lib/storage';
+
+interface SavedAddressSelectProps {
+  addresses: SavedAddress[];
+  onSelect: (address: SavedAddress) => void;
+}
+
+// Fills an address form from the address book
+export function SavedAddressSelect({ addresses, onSelect }: SavedAddressSelectProps) {
+  const { language, t } = useLanguage();
+
+  return (
+    <div className="space-y-2">
+      <Label>{t('address.use_saved')}</Label>
+      <Select
+        onValueChange={(id) => {
+          const address = addresses.find(a => a.id === id);
+          if (address) onSelect(address);
+        }}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder={t('address.choose_saved')} />
+        </SelectTrigger>
+        <SelectContent>
+          {addresses.map((address) => (
+            <SelectItem key={address.id} value={address.id}>
+              {address.label ? `${address.label} · ` : ''}{formatAddress(address, language)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
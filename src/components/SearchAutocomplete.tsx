@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Clock, LayoutGrid, Search, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { buildSearchIndex, searchProducts, type SearchIndex } from '@/lib/search';
+import {
+  productStorage,
+  categoryStorage,
+  searchHistoryStorage,
+  type Category
+} from '@/lib/storage';
+
+const MAX_PRODUCT_SUGGESTIONS = 5;
+
+interface SearchAutocompleteProps {
+  // Runs the search in place; without it the query opens on the home page
+  onSearch?: (query: string) => void;
+  // Called after any suggestion is picked, e.g. to close the mobile menu
+  onDone?: () => void;
+  className?: string;
+  inputClassName?: string;
+}
+
+export function SearchAutocomplete({ onSearch, onDone, className, inputClassName }: SearchAutocompleteProps) {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+
+  // Mirror the query the home page is showing
+  useEffect(() => {
+    if (location.pathname === '/') {
+      setQuery(new URLSearchParams(location.search).get('q') || '');
+    }
+  }, [location.pathname, location.search]);
+
+  // Read the catalog when the field is focused so suggestions see admin edits
+  const handleFocus = () => {
+    setIndex(buildSearchIndex(productStorage.getProducts()));
+    setCategories(categoryStorage.getCategories());
+    setRecentSearches(searchHistoryStorage.getRecentSearches());
+    setOpen(true);
+  };
+
+  const close = () => {
+    setOpen(false);
+    (document.activeElement as HTMLElement | null)?.blur();
+    onDone?.();
+  };
+
+  const commitSearch = (value: string) => {
+    searchHistoryStorage.addRecentSearch(value);
+    setQuery(value);
+    close();
+    if (onSearch) {
+      onSearch(value);
+    } else {
+      navigate(value.trim() ? `/?q=${encodeURIComponent(value.trim())}` : '/');
+    }
+  };
+
+  const clearRecentSearches = () => {
+    searchHistoryStorage.clearRecentSearches();
+    setRecentSearches([]);
+  };
+
+  const openPath = (path: string) => {
+    close();
+    navigate(path);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    } else if (e.key === 'Enter' && (!open || !query.trim())) {
+      // No suggestion list to pick from, so submit what was typed
+      e.preventDefault();
+      commitSearch(query);
+    }
+  };
+
+  const trimmed = query.trim();
+  const lowerQuery = trimmed.toLowerCase();
+  const productSuggestions = index && trimmed
+    ? searchProducts(index, trimmed).slice(0, MAX_PRODUCT_SUGGESTIONS).map(result => result.product)
+    : [];
+  const categorySuggestions = trimmed
+    ? categories.filter(category => {
+        const label = t(`categories.${category.name}`) || category.name;
+        return label.toLowerCase().includes(lowerQuery) || category.name.toLowerCase().includes(lowerQuery);
+      })
+    : [];
+  const recentSuggestions = recentSearches
+    .filter(recent => recent.toLowerCase() !== lowerQuery && recent.toLowerCase().includes(lowerQuery));
+
+  const hasSuggestions = !!trimmed || recentSuggestions.length > 0;
+
+  return (
+    <Command
+      shouldFilter={false}
+      onKeyDown={handleKeyDown}
+      className={`relative h-auto overflow-visible bg-transparent ${className || ''}`}
+    >
+      <div className="relative w-full">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+        <Input
+          type="search"
+          role="combobox"
+          aria-expanded={open && hasSuggestions}
+          placeholder={t('header.search_placeholder')}
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={handleFocus}
+          onBlur={() => setOpen(false)}
+          className={`pl-10 ${inputClassName || ''}`}
+        />
+      </div>
+
+      {open && hasSuggestions && (
+        <div
+          className="absolute top-full inset-x-0 z-50 mt-1 rounded-md border border-border bg-popover shadow-lg"
+          // Keep focus in the input while clicking a suggestion
+          onMouseDown={e => e.preventDefault()}
+        >
+          <CommandList>
+            {trimmed && (
+              <CommandGroup>
+                <CommandItem value={`search:${trimmed}`} onSelect={() => commitSearch(trimmed)}>
+                  <Search className="mr-2 h-4 w-4" />
+                  <span className="truncate">{t('search.search_for')} “{trimmed}”</span>
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            {productSuggestions.length > 0 && (
+              <CommandGroup heading={t('search.products')}>
+                {productSuggestions.map((product) => (
+                  <CommandItem
+                    key={product.id}
+                    value={`product:${product.id}`}
+                    onSelect={() => openPath(`/product/${product.id}`)}
+                  >
+                    <img src={product.imageUrl} alt="" className="mr-2 h-8 w-8 rounded object-cover" />
+                    <span className="flex-1 truncate">{product.name}</span>
+                    <span className="ml-2 text-muted-foreground">{formatPrice(product.price)}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {categorySuggestions.length > 0 && (
+              <CommandGroup heading={t('search.categories')}>
+                {categorySuggestions.map((category) => (
+                  <CommandItem
+                    key={category.id}
+                    value={`category:${category.id}`}
+                    onSelect={() => openPath(`/?category=${category.id}`)}
+                  >
+                    <LayoutGrid className="mr-2 h-4 w-4" />
+                    {t(`categories.${category.name}`) || category.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {recentSuggestions.length > 0 && (
+              <CommandGroup heading={t('search.recent')}>
+                {recentSuggestions.map((recent) => (
+                  <CommandItem key={recent} value={`recent:${recent}`} onSelect={() => commitSearch(recent)}>
+                    <Clock className="mr-2 h-4 w-4" />
+                    <span className="truncate">{recent}</span>
+                  </CommandItem>
+                ))}
+                <CommandItem value="clear-recent" onSelect={clearRecentSearches} className="text-muted-foreground">
+                  <X className="mr-2 h-4 w-4" />
+                  {t('search.clear_recent')}
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </div>
+      )}
+    </Command>
+  );
+}
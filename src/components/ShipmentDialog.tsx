@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { CARRIERS } from '@/lib/shipments';
+import { capturePayment } from '@/lib/payments';
+import { paymentStorage, shipmentStorage, type Order, type Product } from '@/lib/storage';
+
+interface ShipmentDialogProps {
+  order: Order;
+  products: Product[];
+  createdBy: string;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+// Mounted while open, so each shipment starts from what is left to ship
+export function ShipmentDialog({ order, products, createdBy, onClose, onCreated }: ShipmentDialogProps) {
+  const [carrier, setCarrier] = useState(CARRIERS[0].id);
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>(() =>
+    Object.fromEntries(order.items.map(item => [item.productId, shipmentStorage.getUnshippedQuantity(order, item.productId)]))
+  );
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = Object.entries(quantities).map(([productId, quantity]) => ({ productId, quantity }));
+    if (!shipmentStorage.createShipment(order.id, carrier, trackingNumber, items, createdBy)) {
+      toast({
+        title: t('shipments.create_failed'),
+        description: t('shipments.create_failed_description'),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // The card is charged once the goods are on their way
+    const payment = paymentStorage.getOrderPayment(order.id);
+    if (payment?.status === 'authorized') {
+      await capturePayment(payment);
+    }
+
+    toast({
+      title: t('shipments.created'),
+      description: `${t('orders.order_id')} #${order.id.slice(0, 8)}`
+    });
+    onCreated();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{t('shipments.add')}</DialogTitle>
+            <DialogDescription>{t('orders.order_id')} #{order.id.slice(0, 8)}</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('shipments.carrier')}</Label>
+              <Select value={carrier} onValueChange={setCarrier}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CARRIERS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tracking-number">{t('shipments.tracking_number')}</Label>
+              <Input
+                id="tracking-number"
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('shipments.items')}</Label>
+            {order.items.map((item) => {
+              const unshipped = shipmentStorage.getUnshippedQuantity(order, item.productId);
+              return (
+                <div key={item.productId} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="flex-1">{products.find(p => p.id === item.productId)?.name || item.productId}</span>
+                  <span className="text-muted-foreground">{t('shipments.unshipped')}: {unshipped}</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={unshipped}
+                    className="w-20"
+                    disabled={unshipped === 0}
+                    value={quantities[item.productId] || 0}
+                    onChange={(e) => setQuantities(prev => ({
+                      ...prev,
+                      [item.productId]: Math.min(unshipped, Math.max(0, parseInt(e.target.value) || 0))
+                    }))}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>{t('common.cancel')}</Button>
+            <Button type="submit">{t('shipments.ship')}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getCarrier, getTrackingUrl } from '@/lib/shipments';
+import type { Product, Shipment } from '@/lib/storage';
+import { ExternalLink, Truck } from 'lucide-react';
+
+interface ShipmentListProps {
+  shipments: Shipment[];
+  products: Product[];
+  // Admins can confirm delivery of each shipment
+  onMarkDelivered?: (shipment: Shipment) => void;
+}
+
+export function ShipmentList({ shipments, products, onMarkDelivered }: ShipmentListProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-3">
+      {shipments.map((shipment, index) => {
+        const trackingUrl = getTrackingUrl(shipment);
+        return (
+          <div key={shipment.id} className="p-3 border rounded-lg text-sm space-y-1">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="flex items-center gap-2 font-medium">
+                <Truck className="h-4 w-4" />
+                {shipments.length > 1 && `${t('shipments.shipment')} ${index + 1} · `}
+                {getCarrier(shipment.carrier)?.name || shipment.carrier}
+              </span>
+              <Badge variant={shipment.deliveredAt ? 'default' : 'secondary'}>
+                {shipment.deliveredAt ? t('orders.delivered') : t('shipments.in_transit')}
+              </Badge>
+            </div>
+            <p>
+              {t('shipments.tracking_number')}:{' '}
+              {trackingUrl ? (
+                <a href={trackingUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-primary hover:underline">
+                  {shipment.trackingNumber}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              ) : (
+                shipment.trackingNumber
+              )}
+            </p>
+            <p className="text-muted-foreground">
+              {shipment.items.map(item =>
+                `${products.find(p => p.id === item.productId)?.name || item.productId} × ${item.quantity}`
+              ).join(', ')}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {t('shipments.shipped_on')} {new Date(shipment.shippedAt).toLocaleDateString()}
+              {shipment.deliveredAt && ` · ${t('shipments.delivered_on')} ${new Date(shipment.deliveredAt).toLocaleDateString()}`}
+            </p>
+            {onMarkDelivered && !shipment.deliveredAt && (
+              <Button size="sm" variant="outline" onClick={() => onMarkDelivered(shipment)}>
+                {t('shipments.mark_delivered')}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
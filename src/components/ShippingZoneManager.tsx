@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { COUNTRIES, getCountryName } from '@/lib/address';
+import { getBaseRate } from '@/lib/currency';
+import { shippingZoneStorage, type ShippingRate, type ShippingZone } from '@/lib/storage';
+import { Edit, Plus, Trash2, X } from 'lucide-react';
+
+interface RateForm {
+  id: string;
+  name: string;
+  baseCost: string;
+  costPerKg: string;
+  valuePercent: string;
+  freeOver: string;
+  minDays: string;
+  maxDays: string;
+}
+
+const emptyRate = (): RateForm => ({
+  id: crypto.randomUUID(),
+  name: '',
+  baseCost: '',
+  costPerKg: '0',
+  valuePercent: '',
+  freeOver: '',
+  minDays: '',
+  maxDays: ''
+});
+
+const emptyForm = () => ({
+  name: '',
+  countries: [] as string[],
+  rates: [emptyRate()]
+});
+
+const toOptionalNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+};
+
+// Null when a field is missing or out of range
+const toRate = (form: RateForm): ShippingRate | null => {
+  const baseCost = parseFloat(form.baseCost);
+  const costPerKg = parseFloat(form.costPerKg) || 0;
+  const minDays = parseInt(form.minDays);
+  const maxDays = parseInt(form.maxDays);
+  if (!form.name.trim() || isNaN(baseCost) || baseCost < 0 || costPerKg < 0) return null;
+  if (isNaN(minDays) || isNaN(maxDays) || minDays < 0 || maxDays < minDays) return null;
+
+  return {
+    id: form.id,
+    name: form.name.trim(),
+    baseCost,
+    costPerKg,
+    valuePercent: toOptionalNumber(form.valuePercent),
+    freeOver: toOptionalNumber(form.freeOver),
+    minDays,
+    maxDays
+  };
+};
+
+export function ShippingZoneManager() {
+  const [zones, setZones] = useState<ShippingZone[]>(() => shippingZoneStorage.getZones());
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { language, t } = useLanguage();
+  const { formatAmount } = useCurrency();
+  const formatBase = (amount: number) => formatAmount(amount, getBaseRate());
+
+  const toggleCountry = (code: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      countries: checked ? [...prev.countries, code] : prev.countries.filter(c => c !== code)
+    }));
+  };
+
+  const setRateField = (index: number, field: keyof RateForm, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      rates: prev.rates.map((rate, i) => i === index ? { ...rate, [field]: value } : rate)
+    }));
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rates = form.rates.map(toRate);
+    if (rates.length === 0 || rates.some(rate => !rate)) {
+      toast({ title: t('shipping_rates.invalid'), description: t('shipping_rates.invalid_rates'), variant: "destructive" });
+      return;
+    }
+
+    const zone = { name: form.name.trim(), countries: form.countries, rates };
+    const saved = editingId
+      ? shippingZoneStorage.updateZone(editingId, zone)
+      : !!shippingZoneStorage.addZone(zone);
+    if (!saved) {
+      toast({ title: t('shipping_rates.invalid'), description: t('shipping_rates.countries_taken'), variant: "destructive" });
+      return;
+    }
+
+    setZones(shippingZoneStorage.getZones());
+    resetForm();
+    toast({ title: t('common.success'), description: t('shipping_rates.saved') });
+  };
+
+  const startEditing = (zone: ShippingZone) => {
+    setEditingId(zone.id);
+    setForm({
+      name: zone.name,
+      countries: zone.countries,
+      rates: zone.rates.map(rate => ({
+        id: rate.id,
+        name: rate.name,
+        baseCost: String(rate.baseCost),
+        costPerKg: String(rate.costPerKg),
+        valuePercent: rate.valuePercent ? String(rate.valuePercent) : '',
+        freeOver: rate.freeOver ? String(rate.freeOver) : '',
+        minDays: String(rate.minDays),
+        maxDays: String(rate.maxDays)
+      }))
+    });
+  };
+
+  const deleteZone = (id: string) => {
+    shippingZoneStorage.deleteZone(id);
+    setZones(shippingZoneStorage.getZones());
+    if (editingId === id) {
+      resetForm();
+    }
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? t('shipping_rates.edit_zone') : t('shipping_rates.add_zone')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="zone-name">{t('shipping_rates.zone_name')}</Label>
+              <Input
+                id="zone-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('shipping_rates.countries')}</Label>
+              <div className="max-h-48 overflow-y-auto rounded-md border p-3 grid grid-cols-2 gap-2">
+                {COUNTRIES.map((country) => (
+                  <label key={country.code} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={form.countries.includes(country.code)}
+                      onCheckedChange={(checked) => toggleCountry(country.code, checked === true)}
+                    />
+                    {getCountryName(country.code, language)}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">{t('shipping_rates.rest_of_world_hint')}</p>
+            </div>
+
+            <div className="space-y-3">
+              <Label>{t('shipping_rates.rates')}</Label>
+              {form.rates.map((rate, index) => (
+                <div key={rate.id} className="p-3 border rounded-lg space-y-3">
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1 space-y-2">
+                      <Label htmlFor={`rate-${index}-name`}>{t('shipping_rates.rate_name')}</Label>
+                      <Input
+                        id={`rate-${index}-name`}
+                        value={rate.name}
+                        onChange={(e) => setRateField(index, 'name', e.target.value)}
+                        required
+                      />
+                    </div>
+                    {form.rates.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setForm(prev => ({ ...prev, rates: prev.rates.filter((_, i) => i !== index) }))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    {([
+                      ['baseCost', 'base_cost', '0.01'],
+                      ['costPerKg', 'cost_per_kg', '0.01'],
+                      ['valuePercent', 'value_percent', '0.1'],
+                      ['freeOver', 'free_over', '0.01'],
+                      ['minDays', 'min_days', '1'],
+                      ['maxDays', 'max_days', '1']
+                    ] as [keyof RateForm, string, string][]).map(([field, label, step]) => (
+                      <div key={field} className="space-y-2">
+                        <Label htmlFor={`rate-${index}-${field}`} className="text-xs">{t(`shipping_rates.${label}`)}</Label>
+                        <Input
+                          id={`rate-${index}-${field}`}
+                          type="number"
+                          min="0"
+                          step={step}
+                          value={rate[field]}
+                          onChange={(e) => setRateField(index, field, e.target.value)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, rates: [...prev.rates, emptyRate()] }))}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                {t('shipping_rates.add_rate')}
+              </Button>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1">
+                <Plus className="mr-2 h-4 w-4" />
+                {editingId ? t('shipping_rates.save_zone') : t('shipping_rates.add_zone')}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  {t('common.cancel')}
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('shipping_rates.zones')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {zones.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('shipping_rates.no_zones')}</p>
+          ) : (
+            <div className="space-y-4">
+              {zones.map((zone) => (
+                <div key={zone.id} className="p-4 border rounded-lg space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h3 className="font-semibold">{zone.name}</h3>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {zone.countries.length === 0 ? (
+                          <Badge variant="outline">{t('shipping_rates.rest_of_world')}</Badge>
+                        ) : (
+                          zone.countries.map(code => (
+                            <Badge key={code} variant="outline">{getCountryName(code, language)}</Badge>
+                          ))
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(zone)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => deleteZone(zone.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {zone.rates.map((rate) => (
+                    <p key={rate.id} className="text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">{rate.name}</span>
+                      {`: ${formatBase(rate.baseCost)} + ${formatBase(rate.costPerKg)}/kg`}
+                      {rate.valuePercent ? ` + ${rate.valuePercent}%` : ''}
+                      {rate.freeOver ? ` · ${t('shipping_rates.free_over')} ${formatBase(rate.freeOver)}` : ''}
+                      {` · ${rate.minDays}–${rate.maxDays} ${t('shipping_rates.business_days')}`}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
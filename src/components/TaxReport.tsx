@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { getCountryName } from '@/lib/address';
+import { getBaseRate } from '@/lib/currency';
+import { TAX_REPORT_PERIODS, getTaxReport, type TaxReportPeriod } from '@/lib/tax';
+import type { Order } from '@/lib/storage';
+
+interface TaxReportProps {
+  orders: Order[];
+}
+
+export function TaxReport({ orders }: TaxReportProps) {
+  const [period, setPeriod] = useState<TaxReportPeriod>('month');
+  const { language, t } = useLanguage();
+  const { formatAmount } = useCurrency();
+  const formatBase = (amount: number) => formatAmount(amount, getBaseRate());
+
+  const rows = getTaxReport(orders, period);
+  const periodTotals = rows.reduce<Record<string, number>>((totals, row) => {
+    totals[row.period] = (totals[row.period] || 0) + row.amount;
+    return totals;
+  }, {});
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle>{t('tax.report')}</CardTitle>
+        <Select value={period} onValueChange={(value) => setPeriod(value as TaxReportPeriod)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TAX_REPORT_PERIODS.map((option) => (
+              <SelectItem key={option} value={option}>{t(`tax.period_${option}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('tax.no_tax_collected')}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('tax.period')}</TableHead>
+                <TableHead>{t('tax.jurisdiction')}</TableHead>
+                <TableHead>{t('tax.rule_name')}</TableHead>
+                <TableHead className="text-right">{t('tax.orders')}</TableHead>
+                <TableHead className="text-right">{t('tax.taxable')}</TableHead>
+                <TableHead className="text-right">{t('tax.collected')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={`${row.period}-${row.country}-${row.region || ''}-${row.name}-${row.rate}-${row.inclusive}`}>
+                  <TableCell className="font-medium">
+                    {index === 0 || rows[index - 1].period !== row.period ? (
+                      <>
+                        {row.period}
+                        <span className="block text-xs text-muted-foreground">
+                          {t('tax.period_total')}: {formatBase(periodTotals[row.period])}
+                        </span>
+                      </>
+                    ) : null}
+                  </TableCell>
+                  <TableCell>
+                    {row.country ? getCountryName(row.country, language) : '—'}
+                    {row.region && ` · ${row.region}`}
+                  </TableCell>
+                  <TableCell>
+                    {row.name} ({row.rate}%)
+                    {row.inclusive && <span className="text-muted-foreground"> · {t('tax.included')}</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{row.orders}</TableCell>
+                  <TableCell className="text-right">{formatBase(row.taxableAmount)}</TableCell>
+                  <TableCell className="text-right">{formatBase(row.amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { COUNTRIES, getCountryName } from '@/lib/address';
+import { taxRuleStorage, type TaxRule } from '@/lib/storage';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+
+const emptyForm = () => ({
+  name: '',
+  country: '',
+  region: '',
+  rate: '',
+  inclusive: false
+});
+
+export function TaxRuleManager() {
+  const [rules, setRules] = useState<TaxRule[]>(() => taxRuleStorage.getRules());
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { language, t } = useLanguage();
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(form.rate);
+    if (!form.name.trim() || !form.country || isNaN(rate) || rate <= 0 || rate >= 100) {
+      toast({ title: t('tax.invalid'), description: t('tax.invalid_rate'), variant: "destructive" });
+      return;
+    }
+
+    const rule = {
+      name: form.name.trim(),
+      country: form.country,
+      region: form.region.trim() || undefined,
+      rate,
+      inclusive: form.inclusive
+    };
+    const saved = editingId ? taxRuleStorage.updateRule(editingId, rule) : !!taxRuleStorage.addRule(rule);
+    if (!saved) {
+      toast({ title: t('tax.invalid'), description: t('tax.duplicate_rule'), variant: "destructive" });
+      return;
+    }
+
+    setRules(taxRuleStorage.getRules());
+    resetForm();
+    toast({ title: t('common.success'), description: t('tax.saved') });
+  };
+
+  const startEditing = (rule: TaxRule) => {
+    setEditingId(rule.id);
+    setForm({
+      name: rule.name,
+      country: rule.country,
+      region: rule.region || '',
+      rate: String(rule.rate),
+      inclusive: rule.inclusive
+    });
+  };
+
+  const deleteRule = (id: string) => {
+    taxRuleStorage.deleteRule(id);
+    setRules(taxRuleStorage.getRules());
+    if (editingId === id) {
+      resetForm();
+    }
+  };
+
+  const sortedRules = [...rules].sort((a, b) =>
+    getCountryName(a.country, language).localeCompare(getCountryName(b.country, language)) ||
+    (a.region || '').localeCompare(b.region || '')
+  );
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? t('tax.edit_rule') : t('tax.add_rule')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="tax-name">{t('tax.rule_name')}</Label>
+              <Input
+                id="tax-name"
+                placeholder="VAT"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t('checkout.country')}</Label>
+                <Select value={form.country} onValueChange={(country) => setForm(prev => ({ ...prev, country }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t('address.select_country')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COUNTRIES.map((country) => (
+                      <SelectItem key={country.code} value={country.code}>
+                        {getCountryName(country.code, language)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-region">{t('tax.region')}</Label>
+                <Input
+                  id="tax-region"
+                  value={form.region}
+                  onChange={(e) => setForm(prev => ({ ...prev, region: e.target.value }))}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">{t('tax.region_hint')}</p>
+            <div className="space-y-2">
+              <Label htmlFor="tax-rate">{t('tax.rate')} (%)</Label>
+              <Input
+                id="tax-rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={form.rate}
+                onChange={(e) => setForm(prev => ({ ...prev, rate: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="tax-inclusive"
+                  checked={form.inclusive}
+                  onCheckedChange={(inclusive) => setForm(prev => ({ ...prev, inclusive }))}
+                />
+                <Label htmlFor="tax-inclusive">{t('tax.inclusive')}</Label>
+              </div>
+              <p className="text-xs text-muted-foreground">{t('tax.inclusive_hint')}</p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1">
+                <Plus className="mr-2 h-4 w-4" />
+                {editingId ? t('tax.save_rule') : t('tax.add_rule')}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  {t('common.cancel')}
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('tax.rules')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sortedRules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('tax.no_rules')}</p>
+          ) : (
+            <div className="space-y-3">
+              {sortedRules.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {rule.name} · {rule.rate}%
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline">
+                        {getCountryName(rule.country, language)}
+                        {rule.region && ` · ${rule.region}`}
+                      </Badge>
+                      <Badge variant="secondary">{rule.inclusive ? t('tax.inclusive') : t('tax.exclusive')}</Badge>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => startEditing(rule)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => deleteRule(rule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { createContext, useContext, useState } from 'react';
+import { compareStorage } from '@/lib/storage';
+
+interface CompareContextType {
+  compareIds: string[];
+  isComparing: (productId: string) => boolean;
+  addToCompare: (productId: string) => boolean;
+  removeFromCompare: (productId: string) => void;
+  clearCompare: () => void;
+}
+
+const CompareContext = createContext<CompareContextType | undefined>(undefined);
+
+export function CompareProvider({ children }: { children: React.ReactNode }) {
+  const [compareIds, setCompareIds] = useState<string[]>(() => compareStorage.getCompare());
+
+  const isComparing = (productId: string) => compareIds.includes(productId);
+
+  const addToCompare = (productId: string) => {
+    const added = compareStorage.addToCompare(productId);
+    setCompareIds(compareStorage.getCompare());
+    return added;
+  };
+
+  const removeFromCompare = (productId: string) => {
+    compareStorage.removeFromCompare(productId);
+    setCompareIds(compareStorage.getCompare());
+  };
+
+  const clearCompare = () => {
+    compareStorage.clearCompare();
+    setCompareIds([]);
+  };
+
+  return (
+    <CompareContext.Provider value={{ compareIds, isComparing, addToCompare, removeFromCompare, clearCompare }}>
+      {children}
+    </CompareContext.Provider>
+  );
+}
+
+export function useCompare() {
+  const context = useContext(CompareContext);
+  if (context === undefined) {
+    throw new Error('useCompare must be used within a CompareProvider');
+  }
+  return context;
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { createContext, useContext, useState } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { convertFromBase, formatConverted, formatMoney, getExchangeRate } from '@/lib/currency';
+import { currencyStorage, type CurrencyCode, type ExchangeRate } from '@/lib/storage';
+
+interface CurrencyContextType {
+  currency: CurrencyCode;
+  setCurrency: (currency: CurrencyCode) => void;
+  rates: ExchangeRate[];
+  // Saves an admin's change and shows prices at the new rate
+  updateRate: (currency: CurrencyCode, rate: number, rounding: number) => boolean;
+  // Converts a base-currency amount at the given rate, by default the display currency's
+  convert: (amount: number, rate?: ExchangeRate) => number;
+  formatPrice: (amount: number, rate?: ExchangeRate) => string;
+  // Formats an amount already in the rate's currency, without converting it
+  formatAmount: (amount: number, rate?: Pick<ExchangeRate, 'currency' | 'rounding'>) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currency, setCurrencyState] = useState<CurrencyCode>(() => currencyStorage.getDisplayCurrency());
+  const [rates, setRates] = useState<ExchangeRate[]>(() => currencyStorage.getRates());
+  const { language } = useLanguage();
+
+  const displayRate = getExchangeRate(rates, currency);
+
+  const setCurrency = (code: CurrencyCode) => {
+    currencyStorage.setDisplayCurrency(code);
+    setCurrencyState(code);
+  };
+
+  const updateRate = (code: CurrencyCode, rate: number, rounding: number) => {
+    const updated = currencyStorage.updateRate(code, rate, rounding);
+    setRates(currencyStorage.getRates());
+    return updated;
+  };
+
+  const convert = (amount: number, rate = displayRate) => convertFromBase(amount, rate);
+  const formatPrice = (amount: number, rate = displayRate) => formatConverted(amount, rate, language);
+  const formatAmount = (amount: number, rate: Pick<ExchangeRate, 'currency' | 'rounding'> = displayRate) => {
+    return formatMoney(amount, rate, language);
+  };
+
+  return (
+    <CurrencyContext.Provider value={{ currency, setCurrency, rates, updateRate, convert, formatPrice, formatAmount }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
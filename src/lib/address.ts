@@ -0,0 +1,103 @@
+// Structured postal addresses: per-country rules, validation and formatting
+import type { Address } from './storage';
+
+export interface Country {
+  // ISO 3166-1 alpha-2
+  code: string;
+  // Countries without a pattern don't use postal codes
+  postalPattern?: RegExp;
+  postalExample?: string;
+  requiresState?: boolean;
+}
+
+export const COUNTRIES: Country[] = [
+  { code: 'US', postalPattern: /^\d{5}(-\d{4})?$/, postalExample: '94105', requiresState: true },
+  { code: 'CA', postalPattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i, postalExample: 'K1A 0B1', requiresState: true },
+  { code: 'GB', postalPattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, postalExample: 'SW1A 1AA' },
+  { code: 'DE', postalPattern: /^\d{5}$/, postalExample: '10115' },
+  { code: 'FR', postalPattern: /^\d{5}$/, postalExample: '75001' },
+  { code: 'NL', postalPattern: /^\d{4} ?[A-Z]{2}$/i, postalExample: '1012 AB' },
+  { code: 'AU', postalPattern: /^\d{4}$/, postalExample: '2000', requiresState: true },
+  { code: 'SA', postalPattern: /^\d{5}(-\d{4})?$/, postalExample: '12271' },
+  { code: 'AE' },
+  { code: 'QA' },
+  { code: 'KW', postalPattern: /^\d{5}$/, postalExample: '13001' },
+  { code: 'EG', postalPattern: /^\d{5}$/, postalExample: '11511' },
+  { code: 'JO', postalPattern: /^\d{5}$/, postalExample: '11118' }
+];
+
+export type AddressField = keyof Address;
+
+export interface AddressError {
+  field: AddressField;
+  code: 'required' | 'invalid_postal';
+}
+
+export const getCountry = (code: string): Country | undefined => COUNTRIES.find(c => c.code === code);
+
+export const getCountryName = (code: string, language = 'en'): string => {
+  try {
+    return new Intl.DisplayNames([language], { type: 'region' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+export const emptyAddress = (): Address => ({
+  fullName: '',
+  street: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: '',
+  phone: ''
+});
+
+export const normalizeAddress = (address: Address): Address => ({
+  fullName: address.fullName.trim(),
+  street: address.street.trim(),
+  city: address.city.trim(),
+  state: address.state?.trim() || undefined,
+  postalCode: address.postalCode?.trim().toUpperCase() || undefined,
+  country: address.country.trim().toUpperCase(),
+  phone: address.phone?.trim() || undefined
+});
+
+export const validateAddress = (address: Address): AddressError[] => {
+  const errors: AddressError[] = [];
+  const normalized = normalizeAddress(address);
+  const country = getCountry(normalized.country);
+
+  (['fullName', 'street', 'city', 'country'] as AddressField[]).forEach(field => {
+    if (!normalized[field]) errors.push({ field, code: 'required' });
+  });
+  if (country?.requiresState && !normalized.state) {
+    errors.push({ field: 'state', code: 'required' });
+  }
+  if (country?.postalPattern) {
+    if (!normalized.postalCode) {
+      errors.push({ field: 'postalCode', code: 'required' });
+    } else if (!country.postalPattern.test(normalized.postalCode)) {
+      errors.push({ field: 'postalCode', code: 'invalid_postal' });
+    }
+  }
+
+  return errors;
+};
+
+export const isSameAddress = (a: Address, b: Address): boolean => {
+  const left = normalizeAddress(a);
+  const right = normalizeAddress(b);
+  return (Object.keys(left) as AddressField[]).every(field => (left[field] || '') === (right[field] || ''));
+};
+
+// Orders placed before addresses were structured hold a single line
+export const formatAddress = (address: Address | string, language = 'en'): string => {
+  if (typeof address === 'string') return address;
+  return [
+    address.fullName,
+    address.street,
+    [address.city, address.state, address.postalCode].filter(Boolean).join(' '),
+    getCountryName(address.country, language)
+  ].filter(Boolean).join(', ');
+};
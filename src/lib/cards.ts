@@ -0,0 +1,100 @@
+// Card number, expiry and CVV checks done before a card reaches the provider
+import type { CardBrand } from './storage';
+
+export interface CardDetails {
+  number: string;
+  // MM/YY as typed in the checkout form
+  expiry: string;
+  cvv: string;
+  name: string;
+}
+
+export type CardField = keyof CardDetails;
+
+export interface CardError {
+  field: CardField;
+  code: 'required' | 'invalid_number' | 'invalid_expiry' | 'expired' | 'invalid_cvv';
+}
+
+const BRAND_PATTERNS: { brand: CardBrand; pattern: RegExp; lengths: number[] }[] = [
+  { brand: 'amex', pattern: /^3[47]/, lengths: [15] },
+  { brand: 'visa', pattern: /^4/, lengths: [13, 16, 19] },
+  { brand: 'mastercard', pattern: /^(5[1-5]|2(2[2-9]|[3-6]\d|7[01]|720))/, lengths: [16] },
+  { brand: 'discover', pattern: /^(6011|65|64[4-9])/, lengths: [16, 19] }
+];
+
+export const normalizeCardNumber = (number: string): string => number.replace(/[\s-]/g, '');
+
+export const detectCardBrand = (number: string): CardBrand => {
+  const digits = normalizeCardNumber(number);
+  return BRAND_PATTERNS.find(b => b.pattern.test(digits))?.brand || 'unknown';
+};
+
+export const passesLuhn = (number: string): boolean => {
+  const digits = normalizeCardNumber(number);
+  if (!/^\d+$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+export const parseExpiry = (expiry: string): { month: number; year: number } | null => {
+  const match = expiry.trim().match(/^(\d{1,2})\s*\/\s*(\d{2}|\d{4})$/);
+  if (!match) return null;
+
+  const month = Number(match[1]);
+  const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+  return month >= 1 && month <= 12 ? { month, year } : null;
+};
+
+// Cards are valid through the last day of their expiry month
+export const isExpiryInFuture = (expiry: { month: number; year: number }, now = new Date()): boolean => {
+  return expiry.year > now.getFullYear() || (expiry.year === now.getFullYear() && expiry.month >= now.getMonth() + 1);
+};
+
+export const getCvvLength = (brand: CardBrand): number => brand === 'amex' ? 4 : 3;
+
+export const validateCard = (card: CardDetails, now = new Date()): CardError[] => {
+  const errors: CardError[] = [];
+  const number = normalizeCardNumber(card.number);
+  const brand = detectCardBrand(number);
+
+  if (!card.name.trim()) {
+    errors.push({ field: 'name', code: 'required' });
+  }
+
+  if (!number) {
+    errors.push({ field: 'number', code: 'required' });
+  } else {
+    const lengths = BRAND_PATTERNS.find(b => b.brand === brand)?.lengths;
+    const validLength = lengths ? lengths.includes(number.length) : number.length >= 12 && number.length <= 19;
+    if (!validLength || !passesLuhn(number)) {
+      errors.push({ field: 'number', code: 'invalid_number' });
+    }
+  }
+
+  const expiry = parseExpiry(card.expiry);
+  if (!card.expiry.trim()) {
+    errors.push({ field: 'expiry', code: 'required' });
+  } else if (!expiry) {
+    errors.push({ field: 'expiry', code: 'invalid_expiry' });
+  } else if (!isExpiryInFuture(expiry, now)) {
+    errors.push({ field: 'expiry', code: 'expired' });
+  }
+
+  if (!card.cvv.trim()) {
+    errors.push({ field: 'cvv', code: 'required' });
+  } else if (!new RegExp(`^\\d{${getCvvLength(brand)}}$`).test(card.cvv.trim())) {
+    errors.push({ field: 'cvv', code: 'invalid_cvv' });
+  }
+
+  return errors;
+};
@@ -0,0 +1,90 @@
+// Sorting and pagination for the catalog grid
+import type { Order, Product } from './storage';
+
+export const SORT_MODES = ['relevance', 'featured', 'price_asc', 'price_desc', 'name', 'newest', 'stock', 'best_selling'] as const;
+export type SortMode = typeof SORT_MODES[number];
+
+export const PAGE_SIZE = 12;
+
+// Search results default to relevance, which only means something with a query
+export const getDefaultSort = (hasQuery: boolean): SortMode => (hasQuery ? 'relevance' : 'featured');
+
+export const getSortModes = (hasQuery: boolean): SortMode[] => {
+  return SORT_MODES.filter(mode => hasQuery || mode !== 'relevance');
+};
+
+export const parseSortMode = (value: string | null, hasQuery: boolean): SortMode => {
+  return getSortModes(hasQuery).find(mode => mode === value) || getDefaultSort(hasQuery);
+};
+
+// Units sold per product, ignoring cancelled orders
+export const getSalesCounts = (orders: Order[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  orders
+    .filter(order => order.status !== 'cancelled')
+    .forEach(order => {
+      order.items.forEach(item => {
+        counts.set(item.productId, (counts.get(item.productId) || 0) + item.quantity);
+      });
+    });
+  return counts;
+};
+
+// Products seeded before createdAt existed have none and count as oldest
+const getCreatedTime = (product: Product): number => {
+  return product.createdAt ? new Date(product.createdAt).getTime() : 0;
+};
+
+// Stable sort: products that compare equal keep their catalog order
+export const sortProducts = (products: Product[], mode: SortMode, salesCounts: Map<string, number>): Product[] => {
+  const compare = (a: Product, b: Product): number => {
+    switch (mode) {
+      case 'price_asc':
+        return a.price - b.price;
+      case 'price_desc':
+        return b.price - a.price;
+      case 'name':
+        return a.name.localeCompare(b.name);
+      case 'newest':
+        return getCreatedTime(b) - getCreatedTime(a);
+      case 'stock':
+        return b.inStock - a.inStock;
+      case 'best_selling':
+        return (salesCounts.get(b.id) || 0) - (salesCounts.get(a.id) || 0);
+      case 'featured':
+        return Number(b.featured) - Number(a.featured);
+      default:
+        return 0; // Relevance keeps the order search ranked them in
+    }
+  };
+
+  const indexed = products.map((product, index) => ({ product, index }));
+  indexed.sort((a, b) => compare(a.product, b.product) || (mode === 'newest' ? b.index - a.index : a.index - b.index));
+  return indexed.map(entry => entry.product);
+};
+
+export const getPageCount = (total: number, pageSize = PAGE_SIZE): number => {
+  return Math.max(1, Math.ceil(total / pageSize));
+};
+
+export const paginate = <T>(items: T[], page: number, pageSize = PAGE_SIZE): T[] => {
+  const start = (page - 1) * pageSize;
+  return items.slice(start, start + pageSize);
+};
+
+// Page numbers to show around the current one, with null marking a gap
+export const getPageItems = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const visible = Array.from(pages)
+    .filter(p => p >= 1 && p <= pageCount)
+    .sort((a, b) => a - b);
+
+  const items: (number | null)[] = [];
+  visible.forEach((p, i) => {
+    if (i > 0 && p - visible[i - 1] > 1) {
+      items.push(null);
+    }
+    items.push(p);
+  });
+  return items;
+};
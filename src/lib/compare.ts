@@ -0,0 +1,76 @@
+// Side-by-side comparison rows for the /compare page
+import type { Product } from './storage';
+import { getOrderedSpecs, getSpecField, type SpecValue } from './specs';
+
+export interface CompareRow {
+  key: string;
+  values: (SpecValue | undefined)[];
+  // Columns holding the best value, empty when the row can't be ranked
+  best: number[];
+}
+
+export interface ValueMetric {
+  id: string;
+  values: (number | null)[];
+  best: number[];
+}
+
+// Price per unit of the spec that matters most for each category
+const VALUE_METRICS: { id: string; categoryId: string; specKey: string }[] = [
+  { id: 'price_per_core', categoryId: '1', specKey: 'cores' },
+  { id: 'price_per_gb', categoryId: '2', specKey: 'memory' },
+  { id: 'price_per_gb', categoryId: '4', specKey: 'capacity' },
+  { id: 'price_per_watt', categoryId: '5', specKey: 'wattage' }
+];
+
+const getBestColumns = (values: (number | null | undefined)[], better: 'higher' | 'lower'): number[] => {
+  const numbers = values.filter((v): v is number => typeof v === 'number');
+  // Nothing to rank unless at least two products have the value
+  if (numbers.length < 2) return [];
+
+  const target = better === 'higher' ? Math.max(...numbers) : Math.min(...numbers);
+  if (numbers.every(n => n === target)) return [];
+  return values.flatMap((v, index) => (v === target ? [index] : []));
+};
+
+export const getPriceBest = (products: Product[]): number[] => {
+  return getBestColumns(products.map(p => p.price), 'lower');
+};
+
+// One row per spec key found on any of the products, in schema order. A row
+// is only ranked when all its values come from the same category's spec
+// field, so a CPU boost clock in GHz is never ranked against a graphics card's
+// in MHz.
+export const getCompareRows = (products: Product[]): CompareRow[] => {
+  const keys: string[] = [];
+  products.forEach(product => {
+    getOrderedSpecs(product.categoryId, product.specs).forEach(([key]) => {
+      if (!keys.includes(key)) keys.push(key);
+    });
+  });
+
+  return keys.map(key => {
+    const values = products.map(product => product.specs[key]);
+    const categoryIds = new Set(products.filter(product => product.specs[key] !== undefined).map(p => p.categoryId));
+    const field = categoryIds.size === 1 ? getSpecField([...categoryIds][0], key) : undefined;
+    const best = field?.better
+      ? getBestColumns(values.map(v => (typeof v === 'number' ? v : null)), field.better)
+      : [];
+    return { key, values, best };
+  });
+};
+
+export const getValueMetrics = (products: Product[]): ValueMetric[] => {
+  const ids = Array.from(new Set(VALUE_METRICS.map(metric => metric.id)));
+
+  return ids
+    .map(id => {
+      const values = products.map(product => {
+        const metric = VALUE_METRICS.find(m => m.id === id && m.categoryId === product.categoryId);
+        const units = metric ? product.specs[metric.specKey] : undefined;
+        return typeof units === 'number' && units > 0 ? Math.round((product.price / units) * 100) / 100 : null;
+      });
+      return { id, values, best: getBestColumns(values, 'lower') };
+    })
+    .filter(metric => metric.values.some(value => value !== null));
+};
@@ -0,0 +1,198 @@
+// PC build compatibility checks driven by the typed Product.specs
+import type { CartItem, Product } from './storage';
+
+export type PartType = 'cpu' | 'gpu' | 'motherboard' | 'memory' | 'storage' | 'psu' | 'case';
+
+export interface BuildPart {
+  product: Product;
+  quantity: number;
+}
+
+export interface CompatibilityIssue {
+  code: 'socket_mismatch' | 'memory_mismatch' | 'form_factor_mismatch' | 'insufficient_power' | 'low_power_headroom';
+  severity: 'error' | 'warning';
+  productIds: string[];
+  params: Record<string, string | number>;
+}
+
+// Default categories seeded by initializeDefaultData
+const PART_TYPE_BY_CATEGORY: Record<string, PartType> = {
+  '1': 'cpu',
+  '2': 'gpu',
+  '3': 'motherboard',
+  '4': 'memory',
+  '5': 'psu',
+  '6': 'case'
+};
+
+// Motherboard form factors each case size can hold
+const CASE_SUPPORTED_FORMS: Record<string, string[]> = {
+  'Full Tower': ['E-ATX', 'ATX', 'mATX', 'Mini-ITX'],
+  'Mid Tower': ['ATX', 'mATX', 'Mini-ITX'],
+  'Micro-ATX': ['mATX', 'Mini-ITX'],
+  'Mini-ITX': ['Mini-ITX']
+};
+
+// CPUs don't list power draw, so fall back to a typical desktop TDP
+const DEFAULT_CPU_POWER = 125;
+// Motherboard, memory, drives and fans
+const BASE_SYSTEM_POWER = 75;
+// Recommended spare capacity on top of the estimated load
+const PSU_HEADROOM = 1.25;
+
+const getText = (product: Product, key: string): string | undefined => {
+  const value = product.specs[key];
+  return value === undefined ? undefined : String(value);
+};
+
+const getNumber = (product: Product, key: string): number | null => {
+  const value = product.specs[key];
+  return typeof value === 'number' ? value : null;
+};
+
+export const getPartType = (product: Product): PartType | null => {
+  const type = PART_TYPE_BY_CATEGORY[product.categoryId];
+  // The memory category also holds drives, which have no memory type
+  if (type === 'memory' && !getText(product, 'memory type')) {
+    return 'storage';
+  }
+  return type || null;
+};
+
+export const getBuildParts = (items: CartItem[], products: Product[]): BuildPart[] => {
+  return items
+    .map(item => ({ product: products.find(p => p.id === item.productId), quantity: item.quantity }))
+    .filter((part): part is BuildPart => !!part.product);
+};
+
+export const estimatePowerDraw = (parts: BuildPart[]): number => {
+  return parts.reduce((total, { product, quantity }) => {
+    const type = getPartType(product);
+    if (type === 'gpu') {
+      return total + (getNumber(product, 'power') || 0) * quantity;
+    }
+    if (type === 'cpu') {
+      return total + (getNumber(product, 'tdp') || DEFAULT_CPU_POWER) * quantity;
+    }
+    return total;
+  }, BASE_SYSTEM_POWER);
+};
+
+export const checkCompatibility = (parts: BuildPart[]): CompatibilityIssue[] => {
+  const issues: CompatibilityIssue[] = [];
+  const ofType = (type: PartType) => parts.filter(part => getPartType(part.product) === type).map(part => part.product);
+
+  const cpus = ofType('cpu');
+  const gpus = ofType('gpu');
+  const motherboards = ofType('motherboard');
+  const memory = ofType('memory');
+  const psus = ofType('psu');
+  const cases = ofType('case');
+
+  motherboards.forEach(board => {
+    const boardSocket = getText(board, 'socket');
+    cpus.forEach(cpu => {
+      const cpuSocket = getText(cpu, 'socket');
+      if (boardSocket && cpuSocket && boardSocket !== cpuSocket) {
+        issues.push({
+          code: 'socket_mismatch',
+          severity: 'error',
+          productIds: [cpu.id, board.id],
+          params: { cpu: cpu.name, cpuSocket, board: board.name, boardSocket }
+        });
+      }
+    });
+
+    const boardMemory = getText(board, 'memory type');
+    memory.forEach(kit => {
+      const kitMemory = getText(kit, 'memory type');
+      if (boardMemory && kitMemory && boardMemory !== kitMemory) {
+        issues.push({
+          code: 'memory_mismatch',
+          severity: 'error',
+          productIds: [kit.id, board.id],
+          params: { memory: kit.name, memoryType: kitMemory, board: board.name, boardMemory }
+        });
+      }
+    });
+
+    const boardForm = getText(board, 'form factor');
+    cases.forEach(pcCase => {
+      const caseForm = getText(pcCase, 'form factor');
+      const supported = CASE_SUPPORTED_FORMS[caseForm || ''];
+      if (boardForm && supported && !supported.includes(boardForm)) {
+        issues.push({
+          code: 'form_factor_mismatch',
+          severity: 'error',
+          productIds: [board.id, pcCase.id],
+          params: { board: board.name, boardForm, case: pcCase.name, caseForm }
+        });
+      }
+    });
+  });
+
+  if (psus.length > 0 && (cpus.length > 0 || gpus.length > 0)) {
+    const load = estimatePowerDraw(parts);
+    const recommended = Math.ceil(load * PSU_HEADROOM);
+    psus.forEach(psu => {
+      const wattage = getNumber(psu, 'wattage');
+      if (!wattage) return;
+
+      const relatedIds = [psu.id, ...cpus.map(p => p.id), ...gpus.map(p => p.id)];
+      if (wattage < load) {
+        issues.push({
+          code: 'insufficient_power',
+          severity: 'error',
+          productIds: relatedIds,
+          params: { psu: psu.name, wattage, load, recommended }
+        });
+      } else if (wattage < recommended) {
+        issues.push({
+          code: 'low_power_headroom',
+          severity: 'warning',
+          productIds: relatedIds,
+          params: { psu: psu.name, wattage, load, recommended }
+        });
+      }
+    });
+  }
+
+  return issues;
+};
+
+export const checkCartCompatibility = (items: CartItem[], products: Product[]): CompatibilityIssue[] => {
+  return checkCompatibility(getBuildParts(items, products));
+};
+
+// True when adding the candidate to the parts produces no blocking issue involving it
+export const isCompatibleWith = (candidate: Product, parts: BuildPart[]): boolean => {
+  const others = parts.filter(part => part.product.id !== candidate.id);
+  return !checkCompatibility([...others, { product: candidate, quantity: 1 }])
+    .some(issue => issue.severity === 'error' && issue.productIds.includes(candidate.id));
+};
+
+// Part types whose specs constrain each other
+const RELATED_PART_TYPES: Record<PartType, PartType[]> = {
+  cpu: ['motherboard', 'psu'],
+  gpu: ['psu'],
+  motherboard: ['cpu', 'memory', 'case'],
+  memory: ['motherboard'],
+  storage: [],
+  psu: ['cpu', 'gpu'],
+  case: ['motherboard']
+};
+
+// In-stock parts of related types that fit the product without errors or
+// warnings, grouped by part type and capped per type
+export const getCompatibleParts = (product: Product, products: Product[], limitPerType = Infinity): Product[] => {
+  const type = getPartType(product);
+  if (!type) return [];
+
+  return RELATED_PART_TYPES[type].flatMap(relatedType => {
+    return products
+      .filter(candidate => getPartType(candidate) === relatedType && candidate.inStock > 0)
+      .filter(candidate => !checkCompatibility([{ product, quantity: 1 }, { product: candidate, quantity: 1 }])
+        .some(issue => issue.productIds.includes(candidate.id)))
+      .slice(0, limitPerType);
+  });
+};
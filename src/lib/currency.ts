@@ -0,0 +1,66 @@
+// Display currencies: conversion from the base currency, rounding and formatting
+import type { CurrencyCode, CurrencyEstimate, ExchangeRate, Order } from './storage';
+
+// Catalog prices, orders, payments and admin settings are all kept in this currency
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+export const CURRENCIES: CurrencyCode[] = ['USD', 'SAR', 'AED', 'EUR'];
+
+// Units of each currency per unit of the base currency. Riyal and dirham
+// prices are rounded to the nearest 5 halalas/fils.
+export const DEFAULT_EXCHANGE_RATES: ExchangeRate[] = [
+  { currency: 'USD', rate: 1, rounding: 0.01 },
+  { currency: 'SAR', rate: 3.75, rounding: 0.05 },
+  { currency: 'AED', rate: 3.6725, rounding: 0.05 },
+  { currency: 'EUR', rate: 0.92, rounding: 0.01 }
+];
+
+const NUMBER_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  ar: 'ar-SA'
+};
+
+export const getNumberLocale = (language: string): string => NUMBER_LOCALES[language] || NUMBER_LOCALES.en;
+
+export const getExchangeRate = (rates: ExchangeRate[], currency: CurrencyCode): ExchangeRate => {
+  return rates.find(rate => rate.currency === currency)
+    || DEFAULT_EXCHANGE_RATES.find(rate => rate.currency === currency)
+    || DEFAULT_EXCHANGE_RATES[0];
+};
+
+// Amounts that are never converted, such as payments, are shown at this rate
+export const getBaseRate = (): ExchangeRate => getExchangeRate(DEFAULT_EXCHANGE_RATES, BASE_CURRENCY);
+
+// Orders are charged in the base currency; the total in the currency the
+// customer browsed in is shown beside it as an estimate, when it differs
+export const getOrderEstimate = (order: Pick<Order, 'displayed'>): CurrencyEstimate | undefined => {
+  return order.displayed && order.displayed.currency !== BASE_CURRENCY ? order.displayed : undefined;
+};
+
+// Rounds to the currency's smallest step, e.g. 0.05 or 1, trimming float
+// noise such as 0.30000000000000004
+export const roundToIncrement = (amount: number, increment: number): number => {
+  if (!(increment > 0)) return amount;
+  const decimals = Math.max(0, Math.ceil(-Math.log10(increment)));
+  return Number((Math.round(amount / increment) * increment).toFixed(decimals));
+};
+
+export const convertFromBase = (amount: number, rate: ExchangeRate): number => {
+  return roundToIncrement(amount * rate.rate, rate.rounding);
+};
+
+// Whole-unit rounding shows no decimals; everything else shows cents
+export const formatMoney = (amount: number, rate: Pick<ExchangeRate, 'currency' | 'rounding'>, language: string): string => {
+  const decimals = rate.rounding >= 1 ? 0 : 2;
+  return new Intl.NumberFormat(getNumberLocale(language), {
+    style: 'currency',
+    currency: rate.currency,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  }).format(amount);
+};
+
+// A base-currency amount shown in another currency
+export const formatConverted = (amount: number, rate: ExchangeRate, language: string): string => {
+  return formatMoney(convertFromBase(amount, rate), rate, language);
+};
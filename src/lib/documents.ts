@@ -0,0 +1,54 @@
+// Invoice and packing slip contents for an order
+import { roundCents } from './pricing';
+import type { Order, Product, User } from './storage';
+
+export type OrderDocumentType = 'invoice' | 'packing-slip';
+
+export const ORDER_DOCUMENT_TYPES: OrderDocumentType[] = ['invoice', 'packing-slip'];
+
+// Printed at the top of every document
+export const SELLER_DETAILS = {
+  name: 'PC Shop',
+  addressLines: ['100 Market Street', 'San Francisco, CA 94105', 'United States'],
+  email: 'support@pcshop.com',
+  phone: '+1 415 555 0100',
+  taxId: 'US-EIN 00-0000000'
+};
+
+export interface DocumentLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export const getInvoiceNumber = (order: Pick<Order, 'id' | 'createdAt'>): string => {
+  return `INV-${new Date(order.createdAt).getFullYear()}-${order.id.slice(0, 8).toUpperCase()}`;
+};
+
+// Products deleted since the order was placed are shown by their id
+export const getDocumentLines = (order: Order, products: Product[]): DocumentLine[] => {
+  return order.items.map(item => ({
+    productId: item.productId,
+    name: products.find(p => p.id === item.productId)?.name || item.productId,
+    quantity: item.quantity,
+    unitPrice: item.price,
+    total: roundCents(item.price * item.quantity)
+  }));
+};
+
+// Admins see every order's documents, customers their own; guests need the
+// email the order was placed with, as in the order lookup
+export const canViewOrderDocuments = (order: Order, viewer: User | null, owner: User | undefined, email?: string): boolean => {
+  if (viewer?.role === 'admin') return true;
+  if (viewer && order.userId === viewer.id) return true;
+
+  const contact = email?.trim().toLowerCase();
+  return !!contact && (order.guestEmail?.toLowerCase() === contact || owner?.email.toLowerCase() === contact);
+};
+
+export const getOrderDocumentUrl = (type: OrderDocumentType, order: Pick<Order, 'id'>, email?: string): string => {
+  const query = email ? `?email=${encodeURIComponent(email)}` : '';
+  return `/orders/${order.id}/${type}${query}`;
+};
@@ -0,0 +1,163 @@
+// Catalog facets built from the spec schema of the selected category.
+// Values within one facet are OR-ed, separate facets are AND-ed.
+import type { Product } from './storage';
+import { formatSpecValue, getSpecSchema } from './specs';
+
+export const PRICE_FACET_KEY = 'price';
+
+export interface FacetSelection {
+  values: Record<string, string[]>;
+  ranges: Record<string, [number, number]>;
+}
+
+export interface ValueFacet {
+  key: string;
+  type: 'values';
+  options: { value: string; label: string; count: number }[];
+}
+
+export interface RangeFacet {
+  key: string;
+  type: 'range';
+  unit?: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type Facet = ValueFacet | RangeFacet;
+
+export const emptyFacetSelection = (): FacetSelection => ({ values: {}, ranges: {} });
+
+export const hasFacetSelection = (selection: FacetSelection): boolean => {
+  return Object.keys(selection.values).length > 0 || Object.keys(selection.ranges).length > 0;
+};
+
+const getFacetNumber = (product: Product, key: string): number | null => {
+  const value = key === PRICE_FACET_KEY ? product.price : product.specs[key];
+  return typeof value === 'number' ? value : null;
+};
+
+const matchesFacets = (product: Product, selection: FacetSelection, exceptKey?: string): boolean => {
+  const valuesMatch = Object.entries(selection.values).every(([key, values]) => {
+    if (key === exceptKey || values.length === 0) return true;
+    const value = product.specs[key];
+    return value !== undefined && values.includes(String(value));
+  });
+  if (!valuesMatch) return false;
+
+  return Object.entries(selection.ranges).every(([key, [min, max]]) => {
+    if (key === exceptKey) return true;
+    const value = getFacetNumber(product, key);
+    return value !== null && value >= min && value <= max;
+  });
+};
+
+export const applyFacets = (products: Product[], selection: FacetSelection): Product[] => {
+  return products.filter(product => matchesFacets(product, selection));
+};
+
+const getRangeStep = (min: number, max: number): number => {
+  const span = max - min;
+  if (span <= 10) return 0.1;
+  if (span <= 100) return 1;
+  if (span <= 1000) return 10;
+  return 50;
+};
+
+const buildRangeFacet = (key: string, products: Product[], unit?: string): RangeFacet | null => {
+  const numbers = products.map(p => getFacetNumber(p, key)).filter((n): n is number => n !== null);
+  if (numbers.length === 0) return null;
+
+  const min = Math.floor(Math.min(...numbers));
+  const max = Math.ceil(Math.max(...numbers));
+  if (min === max) return null;
+  return { key, type: 'range', unit, min, max, step: getRangeStep(min, max) };
+};
+
+// Facets for the given products. Counts reflect every other active facet, so
+// ticking a value shows how many products the choice would add.
+export const buildFacets = (categoryId: string | null, products: Product[], selection: FacetSelection): Facet[] => {
+  const facets: Facet[] = [];
+
+  const priceFacet = buildRangeFacet(PRICE_FACET_KEY, products);
+  if (priceFacet) {
+    facets.push(priceFacet);
+  }
+
+  if (!categoryId) {
+    return facets;
+  }
+
+  getSpecSchema(categoryId).forEach(field => {
+    if (field.facet === 'range') {
+      const facet = buildRangeFacet(field.key, products, field.unit);
+      if (facet) facets.push(facet);
+      return;
+    }
+    if (field.facet !== 'values') return;
+
+    const candidates = products.filter(product => matchesFacets(product, selection, field.key));
+    const counts = new Map<string, number>();
+    const rawValues = new Map<string, string | number>();
+    products.forEach(product => {
+      const value = product.specs[field.key];
+      if (value === undefined) return;
+      rawValues.set(String(value), value);
+      if (!counts.has(String(value))) counts.set(String(value), 0);
+    });
+    candidates.forEach(product => {
+      const value = product.specs[field.key];
+      if (value !== undefined) {
+        counts.set(String(value), (counts.get(String(value)) || 0) + 1);
+      }
+    });
+    if (counts.size === 0) return;
+
+    const options = Array.from(counts.entries())
+      .map(([value, count]) => ({ value, label: formatSpecValue(categoryId, field.key, rawValues.get(value)!), count }))
+      .sort((a, b) => {
+        const numericA = rawValues.get(a.value);
+        const numericB = rawValues.get(b.value);
+        if (typeof numericA === 'number' && typeof numericB === 'number') return numericA - numericB;
+        return a.value.localeCompare(b.value);
+      });
+
+    facets.push({ key: field.key, type: 'values', options });
+  });
+
+  return facets;
+};
+
+// URL form: f.<key>=<value> (repeated) and r.<key>=<min>~<max>
+export const parseFacetParams = (params: URLSearchParams): FacetSelection => {
+  const selection = emptyFacetSelection();
+  params.forEach((value, param) => {
+    if (param.startsWith('f.')) {
+      const key = param.slice(2);
+      selection.values[key] = [...(selection.values[key] || []), value];
+    } else if (param.startsWith('r.')) {
+      const [min, max] = value.split('~').map(parseFloat);
+      if (!isNaN(min) && !isNaN(max)) {
+        selection.ranges[param.slice(2)] = [min, max];
+      }
+    }
+  });
+  return selection;
+};
+
+export const writeFacetParams = (params: URLSearchParams, selection: FacetSelection): URLSearchParams => {
+  const next = new URLSearchParams();
+  params.forEach((value, param) => {
+    if (!param.startsWith('f.') && !param.startsWith('r.')) {
+      next.append(param, value);
+    }
+  });
+  Object.entries(selection.values).forEach(([key, values]) => {
+    values.forEach(value => next.append(`f.${key}`, value));
+  });
+  Object.entries(selection.ranges).forEach(([key, [min, max]]) => {
+    next.set(`r.${key}`, `${min}~${max}`);
+  });
+  return next;
+};
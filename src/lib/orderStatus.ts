@@ -0,0 +1,25 @@
+// Order lifecycle: which status changes are allowed and the history of changes
+import type { Order, OrderStatus, OrderStatusChange } from './storage';
+
+// A cancelled order can be reopened as pending; delivered is final
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: ['pending']
+};
+
+export const getNextStatuses = (status: OrderStatus): OrderStatus[] => ORDER_TRANSITIONS[status] || [];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return getNextStatuses(from).includes(to);
+};
+
+// Orders placed before history was kept only know their current status
+export const getStatusHistory = (order: Order): OrderStatusChange[] => {
+  return order.statusHistory || [{ status: order.status, changedAt: order.createdAt, changedBy: order.userId }];
+};
+
+// Customers may cancel their own order until it ships
+export const canCustomerCancel = (order: Order): boolean => canTransition(order.status, 'cancelled');
@@ -0,0 +1,75 @@
+// Ways to pay for an order besides a card, and the rules for offering each
+import { roundCents } from './pricing';
+import type { Payment, PaymentMethod, PaymentSettings } from './storage';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['card', 'cod', 'bank_transfer', 'store_credit'];
+
+export const DEFAULT_PAYMENT_SETTINGS: PaymentSettings = {
+  codEnabled: true,
+  codSurcharge: 5,
+  codMaxOrderValue: 1000,
+  bankTransferEnabled: true,
+  bankDetails: {
+    accountName: 'PC Shop',
+    bankName: '',
+    iban: '',
+    swift: ''
+  }
+};
+
+export type PaymentMethodError = 'disabled' | 'over_limit' | 'sign_in_required' | 'insufficient_credit';
+
+export interface PaymentMethodContext {
+  settings: PaymentSettings;
+  // Order total before any payment surcharge
+  total: number;
+  signedIn: boolean;
+  creditBalance: number;
+}
+
+// Orders placed before payment methods were recorded were paid by card
+export const getOrderPaymentMethod = (order: { paymentMethod?: PaymentMethod }): PaymentMethod => {
+  return order.paymentMethod || 'card';
+};
+
+export const getPaymentSurcharge = (method: PaymentMethod, settings: PaymentSettings): number => {
+  return method === 'cod' ? roundCents(settings.codSurcharge) : 0;
+};
+
+// Null when the method can pay for the order
+export const checkPaymentMethod = (method: PaymentMethod, ctx: PaymentMethodContext): PaymentMethodError | null => {
+  const { settings } = ctx;
+  switch (method) {
+    case 'cod':
+      if (!settings.codEnabled) return 'disabled';
+      if (settings.codMaxOrderValue > 0 && ctx.total + getPaymentSurcharge(method, settings) > settings.codMaxOrderValue) {
+        return 'over_limit';
+      }
+      return null;
+    case 'bank_transfer':
+      return settings.bankTransferEnabled ? null : 'disabled';
+    case 'store_credit':
+      if (!ctx.signedIn) return 'sign_in_required';
+      return ctx.creditBalance >= ctx.total ? null : 'insufficient_credit';
+    default:
+      return null;
+  }
+};
+
+// A card payment that was voided or refunded no longer pays for the order, so
+// a cancelled order paid that way can't be reopened; the customer orders again
+export const isPaymentReleased = (payment: Pick<Payment, 'status'> | null): boolean => {
+  return !!payment && payment.status !== 'authorized' && payment.status !== 'captured';
+};
+
+// Bank transfers are paid before the order is worked on; cash is collected by
+// the courier, so a cash order counts as paid once it's delivered
+export const isAwaitingFunds = (order: { paymentMethod?: PaymentMethod; paymentReceivedAt?: string; status: string }): boolean => {
+  return order.paymentMethod === 'bank_transfer' && !order.paymentReceivedAt && order.status === 'pending';
+};
+
+// A cancelled order's received bank transfer is owed back until the admin
+// records sending it
+export const isTransferRefundOwed = (order: { transferRefundDue?: number; transferRefundedAt?: string }): boolean => {
+  return !!order.transferRefundDue && !order.transferRefundedAt;
+};
@@ -0,0 +1,192 @@
+// Payment providers and the payment lifecycle: authorize at checkout, capture
+// when the order ships, void or refund when it is cancelled or returned
+import { detectCardBrand, normalizeCardNumber, parseExpiry, type CardDetails } from './cards';
+import { roundCents } from './pricing';
+import { paymentStorage, type Payment, type PaymentEvent, type PaymentStatus } from './storage';
+
+export type DeclineCode = 'card_declined' | 'insufficient_funds' | 'authentication_failed' | 'processing_error';
+
+export interface AuthorizationResult {
+  status: 'authorized' | 'requires_action' | 'declined';
+  providerRef: string;
+  declineCode?: DeclineCode;
+}
+
+// A payment gateway. Providers only ever see the card at authorization and
+// refer to the payment by their own reference afterwards.
+export interface PaymentProvider {
+  id: string;
+  authorize: (card: CardDetails, amount: number) => Promise<AuthorizationResult>;
+  // Completes a 3-D Secure challenge with the code the cardholder entered
+  confirmChallenge: (providerRef: string, code: string) => Promise<AuthorizationResult>;
+  capture: (providerRef: string, amount: number) => Promise<boolean>;
+  refund: (providerRef: string, amount: number) => Promise<boolean>;
+  void: (providerRef: string) => Promise<boolean>;
+}
+
+export type SimulatedOutcome = 'approve' | 'challenge' | 'challenge_then_decline' | DeclineCode;
+
+// Test cards for the simulated provider; any other valid card is approved
+export const SIMULATED_TEST_CARDS: Record<string, SimulatedOutcome> = {
+  '4000000000000002': 'card_declined',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000119': 'processing_error',
+  '4000000000003220': 'challenge',
+  '4000008400001629': 'challenge_then_decline'
+};
+
+// The code that passes a simulated 3-D Secure challenge
+export const SIMULATED_CHALLENGE_CODE = '123456';
+
+// Stands in for a real gateway. Pending challenges are held in memory only, so
+// nothing about the card is written to storage.
+export const createSimulatedProvider = (testCards: Record<string, SimulatedOutcome> = SIMULATED_TEST_CARDS): PaymentProvider => {
+  const challenges = new Map<string, SimulatedOutcome>();
+
+  return {
+    id: 'simulated',
+
+    authorize: async (card) => {
+      const providerRef = `sim_${crypto.randomUUID()}`;
+      const outcome = testCards[normalizeCardNumber(card.number)] || 'approve';
+      if (outcome === 'approve') {
+        return { status: 'authorized', providerRef };
+      }
+      if (outcome === 'challenge' || outcome === 'challenge_then_decline') {
+        challenges.set(providerRef, outcome);
+        return { status: 'requires_action', providerRef };
+      }
+      return { status: 'declined', providerRef, declineCode: outcome };
+    },
+
+    confirmChallenge: async (providerRef, code) => {
+      const outcome = challenges.get(providerRef);
+      challenges.delete(providerRef);
+      if (!outcome || code.trim() !== SIMULATED_CHALLENGE_CODE) {
+        return { status: 'declined', providerRef, declineCode: 'authentication_failed' };
+      }
+      return outcome === 'challenge'
+        ? { status: 'authorized', providerRef }
+        : { status: 'declined', providerRef, declineCode: 'card_declined' };
+    },
+
+    capture: async () => true,
+    refund: async () => true,
+    void: async () => true
+  };
+};
+
+const providers: Record<string, PaymentProvider> = {};
+
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  providers[provider.id] = provider;
+};
+
+registerPaymentProvider(createSimulatedProvider());
+
+export const DEFAULT_PAYMENT_PROVIDER = 'simulated';
+
+export const getPaymentProvider = (id = DEFAULT_PAYMENT_PROVIDER): PaymentProvider | undefined => providers[id];
+
+const event = (type: PaymentEvent['type'], amount?: number): PaymentEvent => ({
+  type,
+  amount,
+  at: new Date().toISOString()
+});
+
+const applyResult = (payment: Payment, result: AuthorizationResult): Payment => {
+  if (result.status === 'authorized') {
+    return paymentStorage.updatePayment(payment.id, { status: 'authorized' }, event('authorized', payment.amount));
+  }
+  if (result.status === 'requires_action') {
+    return paymentStorage.updatePayment(payment.id, { status: 'requires_action' }, event('challenge'));
+  }
+  return paymentStorage.updatePayment(payment.id, { status: 'declined', declineCode: result.declineCode }, event('declined'));
+};
+
+// Every attempt is recorded, declined ones included, with only the card's
+// brand, last four digits and expiry
+export const authorizeCardPayment = async (
+  card: CardDetails,
+  amount: number,
+  provider = getPaymentProvider()
+): Promise<Payment> => {
+  const number = normalizeCardNumber(card.number);
+  const expiry = parseExpiry(card.expiry);
+  const result = await provider.authorize(card, amount);
+
+  const payment = paymentStorage.addPayment({
+    orderId: '',
+    provider: provider.id,
+    providerRef: result.providerRef,
+    amount: roundCents(amount),
+    capturedAmount: 0,
+    refundedAmount: 0,
+    status: 'requires_action',
+    card: {
+      brand: detectCardBrand(number),
+      last4: number.slice(-4),
+      expMonth: expiry?.month || 0,
+      expYear: expiry?.year || 0
+    },
+    events: []
+  });
+  return applyResult(payment, result);
+};
+
+export const confirmPaymentChallenge = async (payment: Payment, code: string): Promise<Payment> => {
+  const provider = getPaymentProvider(payment.provider);
+  if (!provider || payment.status !== 'requires_action') return payment;
+  return applyResult(payment, await provider.confirmChallenge(payment.providerRef, code));
+};
+
+export const linkPaymentToOrder = (payment: Payment, orderId: string): Payment | null => {
+  return paymentStorage.updatePayment(payment.id, { orderId });
+};
+
+// Takes the authorized amount; later calls do nothing
+export const capturePayment = async (payment: Payment): Promise<Payment | null> => {
+  const provider = getPaymentProvider(payment.provider);
+  if (!provider || payment.status !== 'authorized') return null;
+  if (!(await provider.capture(payment.providerRef, payment.amount))) return null;
+
+  return paymentStorage.updatePayment(
+    payment.id,
+    { status: 'captured', capturedAmount: payment.amount },
+    event('captured', payment.amount)
+  );
+};
+
+// Releases an authorization that was never captured
+export const voidPayment = async (payment: Payment): Promise<Payment | null> => {
+  const provider = getPaymentProvider(payment.provider);
+  if (!provider || (payment.status !== 'authorized' && payment.status !== 'requires_action')) return null;
+  if (!(await provider.void(payment.providerRef))) return null;
+
+  return paymentStorage.updatePayment(payment.id, { status: 'voided' }, event('voided'));
+};
+
+export const getRefundableAmount = (payment: Payment): number => {
+  return roundCents(payment.capturedAmount - payment.refundedAmount);
+};
+
+// Refunds up to what was captured and not yet refunded
+export const refundPayment = async (payment: Payment, amount: number): Promise<Payment | null> => {
+  const provider = getPaymentProvider(payment.provider);
+  const refund = roundCents(Math.min(amount, getRefundableAmount(payment)));
+  if (!provider || refund <= 0) return null;
+  if (!(await provider.refund(payment.providerRef, refund))) return null;
+
+  const refundedAmount = roundCents(payment.refundedAmount + refund);
+  const status: PaymentStatus = refundedAmount >= payment.capturedAmount ? 'refunded' : 'partially_refunded';
+  return paymentStorage.updatePayment(payment.id, { status, refundedAmount }, event('refunded', refund));
+};
+
+// For a cancelled order: voids the authorization, or refunds what was captured
+export const releaseOrderPayment = async (orderId: string): Promise<Payment | null> => {
+  const payment = paymentStorage.getOrderPayment(orderId);
+  if (!payment) return null;
+  return payment.status === 'authorized'
+    ? voidPayment(payment)
+    : refundPayment(payment, getRefundableAmount(payment));
+};
@@ -0,0 +1,121 @@
+// Order pricing shared by the cart, checkout and stored orders
+import type { CartItem, Order, TaxRule } from './storage';
+
+// A shipping rate as quoted for one order; see shippingRates.ts
+export interface ShippingMethod {
+  id: string;
+  name: string;
+  cost: number;
+}
+
+export interface PriceDiscount {
+  label: string;
+  amount: number;
+  // Set when the discount comes from a promotion, so its uses can be counted
+  promotionId?: string;
+  code?: string;
+}
+
+// One tax applied to an order, kept with the rule's details as they were at
+// the time of purchase
+export interface TaxLine extends Omit<TaxRule, 'id'> {
+  // Merchandise value the tax was worked out on, net of any included tax
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface PriceBreakdown {
+  subtotal: number;
+  shippingMethod?: string;
+  // Name of the rate at the time of purchase; older orders only have the id
+  shippingName?: string;
+  shipping: number;
+  discounts: PriceDiscount[];
+  discountTotal: number;
+  // Fee for the payment method, e.g. cash on delivery; not taxed
+  paymentSurcharge?: number;
+  // Combined rate of the tax lines; orders placed before taxes were itemized
+  // have a single rate and no lines
+  taxRate: number;
+  taxes?: TaxLine[];
+  tax: number;
+  // The part of tax that was already in the prices, as with Gulf VAT
+  taxIncluded?: number;
+  total: number;
+}
+
+export const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const calculateSubtotal = (items: CartItem[]): number => {
+  return roundCents(items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+};
+
+// Discounts can't take the merchandise below zero
+const getDiscountTotal = (subtotal: number, discounts: PriceDiscount[]): number => {
+  return roundCents(Math.min(subtotal, discounts.reduce((sum, d) => sum + d.amount, 0)));
+};
+
+// What the merchandise costs after discounts; free-shipping thresholds use this
+export const getMerchandiseValue = (items: CartItem[], discounts: PriceDiscount[] = []): number => {
+  const subtotal = calculateSubtotal(items);
+  return roundCents(subtotal - getDiscountTotal(subtotal, discounts));
+};
+
+// Tax is charged on the discounted merchandise; shipping and payment fees are
+// not taxed. Inclusive rates are already in the price and are taken out of it,
+// exclusive ones are added on top of what is left.
+export const calculateTaxes = (rules: TaxRule[], merchandise: number): TaxLine[] => {
+  const includedRate = rules.filter(rule => rule.inclusive).reduce((sum, rule) => sum + rule.rate, 0);
+  const taxableAmount = roundCents(merchandise / (1 + includedRate / 100));
+
+  return rules.map(({ id: _id, ...rule }) => ({
+    ...rule,
+    taxableAmount,
+    amount: roundCents(taxableAmount * rule.rate / 100)
+  }));
+};
+
+// Without a shipping method the shipping line is left at zero, and without tax
+// rules no tax is charged, as in the cart before a destination has been picked
+export const calculatePricing = (
+  items: CartItem[],
+  shippingMethod?: ShippingMethod,
+  discounts: PriceDiscount[] = [],
+  paymentSurcharge = 0,
+  taxRules: TaxRule[] = []
+): PriceBreakdown => {
+  const subtotal = calculateSubtotal(items);
+  const shipping = shippingMethod?.cost || 0;
+  const discountTotal = getDiscountTotal(subtotal, discounts);
+  const taxes = calculateTaxes(taxRules, subtotal - discountTotal);
+  const tax = roundCents(taxes.reduce((sum, line) => sum + line.amount, 0));
+  const taxIncluded = roundCents(taxes.filter(line => line.inclusive).reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    subtotal,
+    shippingMethod: shippingMethod?.id,
+    shippingName: shippingMethod?.name,
+    shipping,
+    discounts,
+    discountTotal,
+    paymentSurcharge: paymentSurcharge || undefined,
+    taxRate: taxRules.reduce((sum, rule) => sum + rule.rate, 0) / 100,
+    taxes,
+    tax,
+    taxIncluded: taxIncluded || undefined,
+    total: roundCents(subtotal - discountTotal + tax - taxIncluded + shipping + paymentSurcharge)
+  };
+};
+
+// Orders placed before breakdowns were stored only have a total
+export const getOrderPricing = (order: Order): PriceBreakdown => {
+  return order.pricing || {
+    subtotal: order.total,
+    shipping: 0,
+    discounts: [],
+    discountTotal: 0,
+    taxRate: 0,
+    tax: 0,
+    total: order.total
+  };
+};
@@ -0,0 +1,113 @@
+// Promotion rules: which cart lines a promotion covers, whether it can be used
+// and how much it takes off
+import { calculateSubtotal, roundCents, type PriceDiscount } from './pricing';
+import type { CartItem, Order, Product, Promotion } from './storage';
+
+export type PromotionError = 'inactive' | 'expired' | 'min_cart' | 'usage_limit' | 'user_limit' | 'not_applicable';
+
+// Who is checking out; guests are known only by their email
+export interface PromotionCustomer {
+  userId?: string;
+  email?: string;
+}
+
+export interface PromotionContext {
+  items: CartItem[];
+  products: Product[];
+  orders: Order[];
+  customer: PromotionCustomer;
+  now?: Date;
+}
+
+const getCategoryId = (products: Product[], productId: string): string | undefined => {
+  return products.find(p => p.id === productId)?.categoryId;
+};
+
+// Value of the cart lines the promotion applies to
+const getEligibleValue = (promotion: Promotion, items: CartItem[], products: Product[]): number => {
+  switch (promotion.scope) {
+    case 'category':
+      return calculateSubtotal(items.filter(item => promotion.targetIds.includes(getCategoryId(products, item.productId) || '')));
+    case 'product':
+      return calculateSubtotal(items.filter(item => promotion.targetIds.includes(item.productId)));
+    case 'bundle': {
+      // The dearest unit from each required category makes up the bundle
+      let total = 0;
+      for (const categoryId of promotion.targetIds) {
+        const prices = items
+          .filter(item => getCategoryId(products, item.productId) === categoryId)
+          .map(item => item.price);
+        if (prices.length === 0) return 0;
+        total += Math.max(...prices);
+      }
+      return total;
+    }
+    default:
+      return calculateSubtotal(items);
+  }
+};
+
+export const getPromotionDiscount = (promotion: Promotion, items: CartItem[], products: Product[]): number => {
+  const eligible = getEligibleValue(promotion, items, products);
+  if (eligible <= 0) return 0;
+
+  const amount = promotion.type === 'percentage' ? eligible * promotion.value / 100 : promotion.value;
+  return roundCents(Math.min(eligible, amount));
+};
+
+const isCustomerOrder = (order: Order, customer: PromotionCustomer): boolean => {
+  if (customer.userId && order.userId === customer.userId) return true;
+  return !!customer.email && order.guestEmail?.toLowerCase() === customer.email.trim().toLowerCase();
+};
+
+// Orders that used the promotion, optionally only the customer's
+export const countPromotionUses = (orders: Order[], promotionId: string, customer?: PromotionCustomer): number => {
+  return orders.filter(order =>
+    order.status !== 'cancelled' &&
+    order.pricing?.discounts.some(discount => discount.promotionId === promotionId) &&
+    (!customer || isCustomerOrder(order, customer))
+  ).length;
+};
+
+export const isPromotionExpired = (promotion: Promotion, now = new Date()): boolean => {
+  return !!promotion.expiresAt && new Date(`${promotion.expiresAt}T23:59:59.999`) < now;
+};
+
+// Why the promotion can't be used on this cart, or null if it can
+export const checkPromotion = (promotion: Promotion, context: PromotionContext): PromotionError | null => {
+  const { items, products, orders, customer } = context;
+
+  if (!promotion.active) return 'inactive';
+  if (isPromotionExpired(promotion, context.now)) return 'expired';
+  if (promotion.minCartValue && calculateSubtotal(items) < promotion.minCartValue) return 'min_cart';
+  if (promotion.usageLimit && countPromotionUses(orders, promotion.id) >= promotion.usageLimit) return 'usage_limit';
+  if (promotion.perUserLimit && countPromotionUses(orders, promotion.id, customer) >= promotion.perUserLimit) {
+    return 'user_limit';
+  }
+  if (getPromotionDiscount(promotion, items, products) <= 0) return 'not_applicable';
+  return null;
+};
+
+export const toPriceDiscount = (promotion: Promotion, amount: number): PriceDiscount => ({
+  label: promotion.code ? `${promotion.name} (${promotion.code})` : promotion.name,
+  amount,
+  promotionId: promotion.id,
+  code: promotion.code
+});
+
+// Automatic promotions the cart qualifies for, plus the entered code's
+// promotion when it can be used
+export const getPromotionDiscounts = (
+  promotions: Promotion[],
+  context: PromotionContext,
+  codePromotion?: Promotion | null
+): PriceDiscount[] => {
+  const applicable = promotions.filter(promotion => !promotion.code);
+  if (codePromotion) {
+    applicable.push(codePromotion);
+  }
+
+  return applicable
+    .filter(promotion => !checkPromotion(promotion, context))
+    .map(promotion => toPriceDiscount(promotion, getPromotionDiscount(promotion, context.items, context.products)));
+};
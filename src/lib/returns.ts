@@ -0,0 +1,33 @@
+// Return (RMA) helpers shared by the customer request form and the admin tab
+import { getOrderPricing, roundCents } from './pricing';
+import type { Order, ReturnLine, ReturnReason, ReturnRequest } from './storage';
+
+export const RETURN_REASONS: ReturnReason[] = ['defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other'];
+
+// What the customer paid for the returned units: their price less their share
+// of the order's discounts, plus their share of any tax added on top of the
+// prices. Shipping isn't refunded.
+export const getSuggestedRefund = (order: Order, lines: Pick<ReturnLine, 'productId' | 'quantity'>[]): number => {
+  const pricing = getOrderPricing(order);
+  const merchandise = lines.reduce((sum, line) => {
+    const item = order.items.find(i => i.productId === line.productId);
+    return sum + (item ? item.price * line.quantity : 0);
+  }, 0);
+  if (pricing.subtotal <= 0) return roundCents(merchandise);
+
+  const paidShare = (pricing.subtotal - pricing.discountTotal + pricing.tax - (pricing.taxIncluded || 0)) / pricing.subtotal;
+  return roundCents(merchandise * paidShare);
+};
+
+// The most a return can refund: what was paid for its units, and never more
+// of the order total than earlier approved returns have left
+export const getRefundLimit = (
+  order: Order,
+  lines: Pick<ReturnLine, 'productId' | 'quantity'>[],
+  returns: ReturnRequest[]
+): number => {
+  const refunded = returns
+    .filter(r => r.orderId === order.id && r.status === 'approved')
+    .reduce((sum, r) => sum + (r.refundAmount || 0), 0);
+  return roundCents(Math.max(0, Math.min(getSuggestedRefund(order, lines), order.total - refunded)));
+};
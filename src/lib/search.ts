@@ -0,0 +1,178 @@
+// Client-side product search: tokenized, typo tolerant and ranked by relevance.
+// Besides free text a query can hold spec filters such as socket:AM5,
+// memory_type:DDR5, price<300 or cores>=8.
+import type { Product } from './storage';
+
+type SearchField = 'name' | 'specs' | 'description';
+
+// How much a match in each field counts towards relevance
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  specs: 2,
+  description: 1
+};
+
+// Match quality by kind of token match
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.6;
+
+// Query fields that aren't spec keys
+const PRODUCT_FIELDS: Record<string, (product: Product) => number> = {
+  price: product => product.price,
+  stock: product => product.inStock
+};
+
+type Operator = ':' | '=' | '<' | '<=' | '>' | '>=';
+
+interface SearchFilter {
+  key: string;
+  operator: Operator;
+  value: string;
+}
+
+interface IndexEntry {
+  product: Product;
+  tokens: Record<SearchField, string[]>;
+}
+
+export interface SearchIndex {
+  entries: IndexEntry[];
+  keys: Set<string>;
+}
+
+export interface SearchResult {
+  product: Product;
+  score: number;
+}
+
+export const tokenize = (text: string): string[] => {
+  return text.toLowerCase().match(/[a-z0-9+]+(?:\.[0-9]+)?/g) || [];
+};
+
+// Levenshtein distance, giving up once it exceeds max
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const hasDigit = (token: string): boolean => /\d/.test(token);
+
+// Longer words tolerate more typos; short ones and anything with a digit in
+// it, like rtx4070 or ddr5, must be exact
+const allowedTypos = (token: string): number => {
+  if (hasDigit(token) || token.length < 4) return 0;
+  return token.length < 8 ? 1 : 2;
+};
+
+const matchToken = (queryToken: string, token: string): number => {
+  if (token === queryToken) return EXACT_MATCH;
+  if (queryToken.length >= 2 && token.startsWith(queryToken)) return PREFIX_MATCH;
+
+  // A typo never turns a word into a model number either, e.g. ddrx into ddr4
+  const typos = hasDigit(token) ? 0 : allowedTypos(queryToken);
+  if (typos > 0 && editDistance(queryToken, token, typos) <= typos) return FUZZY_MATCH;
+  return 0;
+};
+
+// Best weighted match for one query token across the product's fields
+const scoreToken = (entry: IndexEntry, queryToken: string): number => {
+  let best = 0;
+  (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+    entry.tokens[field].forEach(token => {
+      best = Math.max(best, matchToken(queryToken, token) * FIELD_WEIGHTS[field]);
+    });
+  });
+  return best;
+};
+
+export const buildSearchIndex = (products: Product[]): SearchIndex => {
+  const keys = new Set(Object.keys(PRODUCT_FIELDS));
+  const entries = products.map(product => {
+    Object.keys(product.specs).forEach(key => keys.add(key));
+    return {
+      product,
+      tokens: {
+        name: tokenize(product.name),
+        specs: Object.values(product.specs).flatMap(value => tokenize(String(value))),
+        description: tokenize(product.description)
+      }
+    };
+  });
+  return { entries, keys };
+};
+
+// Split a query into free-text tokens and key/value filters. Spec keys with
+// spaces are written with underscores (memory_type:DDR5). Unknown keys are
+// searched as plain text.
+export const parseQuery = (query: string, keys: Set<string>): { terms: string[]; filters: SearchFilter[] } => {
+  const terms: string[] = [];
+  const filters: SearchFilter[] = [];
+
+  query.trim().split(/\s+/).filter(Boolean).forEach(part => {
+    const match = part.match(/^([a-z_]+)(<=|>=|<|>|=|:)(.+)$/i);
+    const key = match?.[1].toLowerCase().replace(/_/g, ' ');
+    if (match && key && keys.has(key)) {
+      filters.push({ key, operator: match[2] as Operator, value: match[3].toLowerCase() });
+    } else {
+      terms.push(...tokenize(part));
+    }
+  });
+
+  return { terms, filters };
+};
+
+const matchesFilter = (product: Product, filter: SearchFilter): boolean => {
+  const raw = PRODUCT_FIELDS[filter.key] ? PRODUCT_FIELDS[filter.key](product) : product.specs[filter.key];
+  if (raw === undefined) return false;
+
+  if (filter.operator === ':' || filter.operator === '=') {
+    if (typeof raw === 'number') {
+      return raw === parseFloat(filter.value);
+    }
+    return filter.operator === ':' ? raw.toLowerCase().includes(filter.value) : raw.toLowerCase() === filter.value;
+  }
+
+  const target = parseFloat(filter.value);
+  if (typeof raw !== 'number' || isNaN(target)) return false;
+  switch (filter.operator) {
+    case '<': return raw < target;
+    case '<=': return raw <= target;
+    case '>': return raw > target;
+    default: return raw >= target;
+  }
+};
+
+// Products matching every filter and every term, most relevant first. Ties
+// keep index order.
+export const searchProducts = (index: SearchIndex, query: string): SearchResult[] => {
+  const { terms, filters } = parseQuery(query, index.keys);
+  const results: SearchResult[] = [];
+
+  index.entries.forEach(entry => {
+    if (!filters.every(filter => matchesFilter(entry.product, filter))) return;
+
+    let score = 0;
+    for (const term of terms) {
+      const termScore = scoreToken(entry, term);
+      if (termScore === 0) return;
+      score += termScore;
+    }
+    results.push({ product: entry.product, score });
+  });
+
+  return results.sort((a, b) => b.score - a.score);
+};
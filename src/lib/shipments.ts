@@ -0,0 +1,28 @@
+// Carriers orders ship with and links to their tracking pages
+import type { Shipment } from './storage';
+
+export interface Carrier {
+  id: string;
+  name: string;
+  trackingUrl?: (trackingNumber: string) => string;
+}
+
+export const CARRIERS: Carrier[] = [
+  { id: 'ups', name: 'UPS', trackingUrl: n => `https://www.ups.com/track?tracknum=${encodeURIComponent(n)}` },
+  { id: 'fedex', name: 'FedEx', trackingUrl: n => `https://www.fedex.com/fedextrack/?trknbr=${encodeURIComponent(n)}` },
+  { id: 'dhl', name: 'DHL', trackingUrl: n => `https://www.dhl.com/en/express/tracking.html?AWB=${encodeURIComponent(n)}` },
+  { id: 'usps', name: 'USPS', trackingUrl: n => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${encodeURIComponent(n)}` },
+  { id: 'aramex', name: 'Aramex', trackingUrl: n => `https://www.aramex.com/track/results?ShipmentNumber=${encodeURIComponent(n)}` },
+  { id: 'other', name: 'Other' }
+];
+
+export const getCarrier = (id: string): Carrier | undefined => CARRIERS.find(carrier => carrier.id === id);
+
+export const getTrackingUrl = (shipment: Shipment): string | undefined => {
+  return getCarrier(shipment.carrier)?.trackingUrl?.(shipment.trackingNumber);
+};
+
+// Carrier and tracking number as written in notifications
+export const describeShipment = (shipment: Shipment): string => {
+  return `${getCarrier(shipment.carrier)?.name || shipment.carrier} ${shipment.trackingNumber}`;
+};
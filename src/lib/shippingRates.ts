@@ -0,0 +1,134 @@
+// Shipping quotes by destination zone, parcel weight and order value
+import { roundCents, type ShippingMethod } from './pricing';
+import type { CartItem, Product, ShippingRate, ShippingZone } from './storage';
+
+// Used for products without a weight or dimensions
+export const DEFAULT_ITEM_WEIGHT_KG = 1;
+
+// Carriers bill bulky, light parcels by volume: cm³ per billable kg
+const VOLUMETRIC_DIVISOR = 5000;
+
+export interface ShippingQuote extends ShippingMethod {
+  minDays: number;
+  maxDays: number;
+  // The rate's free-shipping threshold was reached
+  free: boolean;
+}
+
+export interface DeliveryEstimate {
+  earliest: Date;
+  latest: Date;
+}
+
+export const DEFAULT_SHIPPING_ZONES: ShippingZone[] = [
+  {
+    id: 'domestic',
+    name: 'United States',
+    countries: ['US'],
+    rates: [
+      { id: 'standard', name: 'Standard', baseCost: 5.99, costPerKg: 0.5, freeOver: 100, minDays: 3, maxDays: 5 },
+      { id: 'express', name: 'Express', baseCost: 14.99, costPerKg: 1, minDays: 1, maxDays: 2 },
+      { id: 'overnight', name: 'Overnight', baseCost: 29.99, costPerKg: 2, minDays: 1, maxDays: 1 }
+    ]
+  },
+  {
+    id: 'middle-east',
+    name: 'Middle East',
+    countries: ['SA', 'AE', 'QA', 'KW', 'EG', 'JO'],
+    rates: [
+      { id: 'standard', name: 'Standard', baseCost: 14.99, costPerKg: 1.5, freeOver: 500, minDays: 5, maxDays: 9 },
+      { id: 'express', name: 'Express', baseCost: 34.99, costPerKg: 3, minDays: 2, maxDays: 4 }
+    ]
+  },
+  {
+    id: 'international',
+    name: 'Rest of world',
+    countries: [],
+    rates: [
+      { id: 'standard', name: 'Standard', baseCost: 24.99, costPerKg: 3, valuePercent: 1, minDays: 7, maxDays: 14 },
+      { id: 'express', name: 'Express', baseCost: 49.99, costPerKg: 5, valuePercent: 1, minDays: 3, maxDays: 6 }
+    ]
+  }
+];
+
+// The heavier of a product's actual and volumetric weight
+export const getBillableWeight = (product?: Product): number => {
+  const dimensions = product?.dimensionsCm;
+  const volumetric = dimensions
+    ? (dimensions.length * dimensions.width * dimensions.height) / VOLUMETRIC_DIVISOR
+    : 0;
+  const actual = product?.weightKg || 0;
+  return Math.max(actual, volumetric) || DEFAULT_ITEM_WEIGHT_KG;
+};
+
+export const getCartWeight = (items: Pick<CartItem, 'productId' | 'quantity'>[], products: Product[]): number => {
+  const weight = items.reduce((sum, item) => {
+    return sum + getBillableWeight(products.find(p => p.id === item.productId)) * item.quantity;
+  }, 0);
+  return Math.round(weight * 100) / 100;
+};
+
+// A country's own zone, otherwise the catch-all zone if there is one
+export const findZone = (zones: ShippingZone[], country: string): ShippingZone | undefined => {
+  const code = country.trim().toUpperCase();
+  return zones.find(zone => zone.countries.includes(code)) || zones.find(zone => zone.countries.length === 0);
+};
+
+// Two zones may not claim the same country, nor both be the catch-all
+export const zonesOverlap = (a: Pick<ShippingZone, 'countries'>, b: Pick<ShippingZone, 'countries'>): boolean => {
+  if (a.countries.length === 0 || b.countries.length === 0) {
+    return a.countries.length === b.countries.length;
+  }
+  return a.countries.some(code => b.countries.includes(code));
+};
+
+export const quoteRate = (rate: ShippingRate, weightKg: number, orderValue: number): ShippingQuote => {
+  const free = rate.freeOver !== undefined && orderValue >= rate.freeOver;
+  const cost = free
+    ? 0
+    : rate.baseCost + rate.costPerKg * weightKg + (orderValue * (rate.valuePercent || 0)) / 100;
+
+  return {
+    id: rate.id,
+    name: rate.name,
+    cost: roundCents(cost),
+    minDays: rate.minDays,
+    maxDays: rate.maxDays,
+    free
+  };
+};
+
+// Quotes for every rate of the destination's zone, cheapest first. orderValue is
+// the merchandise value after discounts. No quotes means no shipping to country.
+export const getShippingQuotes = (
+  zones: ShippingZone[],
+  items: Pick<CartItem, 'productId' | 'quantity'>[],
+  products: Product[],
+  country: string,
+  orderValue: number
+): ShippingQuote[] => {
+  const zone = country ? findZone(zones, country) : undefined;
+  if (!zone) return [];
+
+  const weight = getCartWeight(items, products);
+  return zone.rates
+    .map(rate => quoteRate(rate, weight, orderValue))
+    .sort((a, b) => a.cost - b.cost);
+};
+
+const addBusinessDays = (from: Date, days: number): Date => {
+  const date = new Date(from);
+  let remaining = days;
+  while (remaining > 0) {
+    date.setDate(date.getDate() + 1);
+    if (date.getDay() !== 0 && date.getDay() !== 6) {
+      remaining--;
+    }
+  }
+  return date;
+};
+
+export const estimateDelivery = (quote: Pick<ShippingQuote, 'minDays' | 'maxDays'>, from = new Date()): DeliveryEstimate => ({
+  earliest: addBusinessDays(from, quote.minDays),
+  latest: addBusinessDays(from, quote.maxDays)
+});
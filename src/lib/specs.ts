@@ -0,0 +1,232 @@
+// Per-category product spec schema, parsing and validation
+
+export type SpecValue = string | number;
+export type ProductSpecs = Record<string, SpecValue>;
+
+export interface SpecField {
+  key: string;
+  type: 'number' | 'enum' | 'text';
+  unit?: string;
+  prefix?: string;
+  options?: string[];
+  required?: boolean;
+  // How the catalog sidebar filters on this field
+  facet?: 'values' | 'range';
+  // Which end is better when products are compared
+  better?: 'higher' | 'lower';
+}
+
+export interface SpecError {
+  key: string;
+  code: 'required' | 'invalid_number' | 'invalid_option';
+}
+
+const SOCKETS = ['AM4', 'AM5', 'LGA1200', 'LGA1700', 'LGA1851'];
+const MEMORY_TYPES = ['DDR4', 'DDR5'];
+
+// Schemas for the default categories seeded by initializeDefaultData
+export const SPEC_SCHEMAS: Record<string, SpecField[]> = {
+  // CPUs
+  '1': [
+    { key: 'cores', type: 'number', required: true, facet: 'values', better: 'higher' },
+    { key: 'threads', type: 'number', required: true, better: 'higher' },
+    { key: 'base clock', type: 'number', unit: 'GHz', required: true, better: 'higher' },
+    { key: 'boost clock', type: 'number', unit: 'GHz', facet: 'range', better: 'higher' },
+    { key: 'socket', type: 'enum', options: SOCKETS, required: true, facet: 'values' },
+    { key: 'tdp', type: 'number', unit: 'W', better: 'lower' }
+  ],
+  // Graphics Cards
+  '2': [
+    { key: 'memory', type: 'number', unit: 'GB', required: true, facet: 'values', better: 'higher' },
+    { key: 'memory type', type: 'enum', options: ['GDDR6', 'GDDR6X', 'GDDR7'], required: true, facet: 'values' },
+    { key: 'memory speed', type: 'number', unit: 'Gbps', better: 'higher' },
+    { key: 'shader units', type: 'number', better: 'higher' },
+    { key: 'boost clock', type: 'number', unit: 'MHz', better: 'higher' },
+    { key: 'power', type: 'number', unit: 'W', required: true, facet: 'range', better: 'lower' }
+  ],
+  // Motherboards
+  '3': [
+    { key: 'socket', type: 'enum', options: SOCKETS, required: true, facet: 'values' },
+    { key: 'chipset', type: 'text', required: true, facet: 'values' },
+    { key: 'memory type', type: 'enum', options: MEMORY_TYPES, required: true, facet: 'values' },
+    { key: 'memory speed', type: 'number', unit: 'MT/s', better: 'higher' },
+    { key: 'expansion slots', type: 'text' },
+    { key: 'form factor', type: 'enum', options: ['E-ATX', 'ATX', 'mATX', 'Mini-ITX'], required: true, facet: 'values' }
+  ],
+  // Memory and storage
+  '4': [
+    { key: 'capacity', type: 'number', unit: 'GB', required: true, facet: 'values', better: 'higher' },
+    { key: 'modules', type: 'number' },
+    { key: 'memory type', type: 'enum', options: MEMORY_TYPES, facet: 'values' },
+    { key: 'speed', type: 'number', unit: 'MT/s', facet: 'range', better: 'higher' },
+    { key: 'latency', type: 'number', prefix: 'CL', better: 'lower' },
+    { key: 'voltage', type: 'number', unit: 'V' },
+    { key: 'interface', type: 'text', facet: 'values' },
+    { key: 'read speed', type: 'number', unit: 'MB/s', better: 'higher' },
+    { key: 'write speed', type: 'number', unit: 'MB/s', better: 'higher' },
+    { key: 'rpm', type: 'number', unit: 'RPM', better: 'higher' },
+    { key: 'cache', type: 'number', unit: 'MB', better: 'higher' },
+    { key: 'form factor', type: 'text' }
+  ],
+  // Power Supplies
+  '5': [
+    { key: 'wattage', type: 'number', unit: 'W', required: true, facet: 'range', better: 'higher' },
+    { key: 'efficiency', type: 'enum', options: ['80+ White', '80+ Bronze', '80+ Silver', '80+ Gold', '80+ Platinum', '80+ Titanium'], required: true, facet: 'values' },
+    { key: 'modular', type: 'enum', options: ['Non-Modular', 'Semi-Modular', 'Fully Modular'], facet: 'values' },
+    { key: 'fan size', type: 'number', unit: 'mm' },
+    { key: 'warranty', type: 'number', unit: 'years', better: 'higher' }
+  ],
+  // Cases
+  '6': [
+    { key: 'form factor', type: 'enum', options: ['Mini-ITX', 'Micro-ATX', 'Mid Tower', 'Full Tower'], required: true, facet: 'values' },
+    { key: 'material', type: 'text' },
+    { key: 'max gpu length', type: 'number', unit: 'mm', required: true, facet: 'range', better: 'higher' },
+    { key: 'fan support', type: 'text' },
+    { key: 'radiator support', type: 'number', unit: 'mm', better: 'higher' }
+  ]
+};
+
+// How the free-form keys used before the schema map onto it. A pattern's
+// first capture group is the part of the old value that is kept.
+interface LegacySpecRule {
+  from: string;
+  to: string;
+  pattern?: RegExp;
+}
+
+const LEGACY_SPEC_RULES: Record<string, LegacySpecRule[]> = {
+  '2': [
+    { from: 'memory', to: 'memory', pattern: /([\d.]+\s*[GT]B)/i },
+    { from: 'memory', to: 'memory type', pattern: /(GDDR\d\w?)/i },
+    { from: 'game clock', to: 'boost clock' },
+    { from: 'cuda cores', to: 'shader units' },
+    { from: 'stream processors', to: 'shader units' }
+  ],
+  '3': [
+    { from: 'memory support', to: 'memory type', pattern: /(DDR\d)/i },
+    { from: 'memory support', to: 'memory speed', pattern: /DDR\d-(\d+)/i },
+    { from: 'form', to: 'form factor' }
+  ],
+  '4': [
+    { from: 'capacity', to: 'capacity', pattern: /^([\d.]+\s*[GT]B)/i },
+    { from: 'capacity', to: 'modules', pattern: /\((\d+)x/i },
+    { from: 'speed', to: 'memory type', pattern: /(DDR\d)/i },
+    { from: 'speed', to: 'speed', pattern: /DDR\d-(\d+)/i },
+    { from: 'speed', to: 'rpm', pattern: /(\d+)\s*RPM/i },
+    { from: 'type', to: 'form factor' },
+    { from: 'form', to: 'form factor' }
+  ]
+};
+
+// Factors for values written in a different unit than the schema's
+const UNIT_SCALES: Record<string, Record<string, number>> = {
+  GB: { TB: 1000, MB: 0.001 },
+  GHz: { MHz: 0.001 },
+  MHz: { GHz: 1000 },
+  MB: { GB: 1000 }
+};
+
+export const getSpecSchema = (categoryId: string): SpecField[] => SPEC_SCHEMAS[categoryId] || [];
+
+export const getSpecField = (categoryId: string, key: string): SpecField | undefined => {
+  return getSpecSchema(categoryId).find(field => field.key === key);
+};
+
+export const parseSpecNumber = (field: SpecField, value: SpecValue): number | null => {
+  if (typeof value === 'number') {
+    return isNaN(value) ? null : value;
+  }
+  const match = value.match(/(-?\d+(?:\.\d+)?)\s*([a-z/]+)?/i);
+  if (!match) return null;
+
+  const number = parseFloat(match[1]);
+  const scale = field.unit && match[2] ? UNIT_SCALES[field.unit]?.[match[2]] : undefined;
+  return scale ? Math.round(number * scale * 1000) / 1000 : number;
+};
+
+const coerceSpecValue = (field: SpecField | undefined, value: SpecValue): SpecValue => {
+  if (!field || field.type === 'text') {
+    return String(value).trim();
+  }
+  if (field.type === 'number') {
+    const number = parseSpecNumber(field, value);
+    return number === null ? String(value).trim() : number;
+  }
+  const option = field.options?.find(o => o.toLowerCase() === String(value).trim().toLowerCase());
+  return option || String(value).trim();
+};
+
+// Parse specs into the typed form of their category's schema. Keys outside the
+// schema are kept as text.
+export const normalizeSpecs = (categoryId: string, specs: ProductSpecs): ProductSpecs => {
+  const normalized: ProductSpecs = {};
+  Object.entries(specs).forEach(([key, value]) => {
+    if (value === '' || value === null || value === undefined) return;
+    normalized[key] = coerceSpecValue(getSpecField(categoryId, key), value);
+  });
+  return normalized;
+};
+
+// Convert specs written before the schema existed (e.g. memory: '24GB GDDR6X')
+export const migrateLegacySpecs = (categoryId: string, specs: ProductSpecs): ProductSpecs => {
+  const rules = LEGACY_SPEC_RULES[categoryId] || [];
+  const migrated: ProductSpecs = {};
+  const consumed = new Set<string>();
+
+  rules.forEach(rule => {
+    const value = specs[rule.from];
+    if (value === undefined) return;
+    consumed.add(rule.from);
+
+    const extracted = rule.pattern ? String(value).match(rule.pattern)?.[1] : value;
+    if (extracted !== undefined && migrated[rule.to] === undefined) {
+      migrated[rule.to] = extracted;
+    }
+  });
+
+  Object.entries(specs).forEach(([key, value]) => {
+    if (!consumed.has(key) && migrated[key] === undefined) {
+      migrated[key] = value;
+    }
+  });
+
+  return normalizeSpecs(categoryId, migrated);
+};
+
+export const validateSpecs = (categoryId: string, specs: ProductSpecs): SpecError[] => {
+  const errors: SpecError[] = [];
+
+  getSpecSchema(categoryId).forEach(field => {
+    const value = specs[field.key];
+    if (value === undefined || value === '') {
+      if (field.required) {
+        errors.push({ key: field.key, code: 'required' });
+      }
+      return;
+    }
+    if (field.type === 'number' && typeof value !== 'number') {
+      errors.push({ key: field.key, code: 'invalid_number' });
+    }
+    if (field.type === 'enum' && !field.options?.includes(String(value))) {
+      errors.push({ key: field.key, code: 'invalid_option' });
+    }
+  });
+
+  return errors;
+};
+
+export const formatSpecValue = (categoryId: string, key: string, value: SpecValue): string => {
+  const field = getSpecField(categoryId, key);
+  if (!field || typeof value !== 'number') {
+    return String(value);
+  }
+  return `${field.prefix || ''}${value}${field.unit ? ` ${field.unit}` : ''}`;
+};
+
+// Specs in schema order, followed by any extra keys
+export const getOrderedSpecs = (categoryId: string, specs: ProductSpecs): [string, SpecValue][] => {
+  const schemaKeys = getSpecSchema(categoryId).map(field => field.key);
+  const known = schemaKeys.filter(key => specs[key] !== undefined).map(key => [key, specs[key]] as [string, SpecValue]);
+  const extra = Object.entries(specs).filter(([key]) => !schemaKeys.includes(key));
+  return [...known, ...extra];
+};
@@ -1,4 +1,30 @@
 // Local storage utilities for PC Shop data persistence
+import { migrateLegacySpecs, normalizeSpecs, validateSpecs, type ProductSpecs } from './specs';
+import { calculatePricing, getMerchandiseValue, roundCents, type PriceBreakdown } from './pricing';
+import { canTransition, getStatusHistory } from './orderStatus';
+import { describeShipment } from './shipments';
+import { normalizeAddress, validateAddress } from './address';
+import { DEFAULT_SHIPPING_ZONES, getShippingQuotes, zonesOverlap } from './shippingRates';
+import {
+  DEFAULT_PAYMENT_SETTINGS,
+  checkPaymentMethod,
+  getPaymentSurcharge,
+  isPaymentReleased,
+  isTransferRefundOwed,
+  type PaymentMethodError
+} from './paymentMethods';
+import { DEFAULT_TAX_RULES, findTaxRules, taxRulesOverlap } from './tax';
+import { getRefundLimit } from './returns';
+import { checkPromotion, getPromotionDiscounts, type PromotionContext } from './promotions';
+import {
+  BASE_CURRENCY,
+  CURRENCIES,
+  DEFAULT_EXCHANGE_RATES,
+  convertFromBase,
+  formatConverted,
+  getBaseRate,
+  getExchangeRate
+} from './currency';
 
 export interface User {
   id: string;
@@ -24,9 +50,22 @@ export interface Product {
   price: number;
   categoryId: string;
   imageUrl: string;
-  specs: Record<string, string>;
+  // Extra gallery images shown after imageUrl on the product page
+  images?: string[];
+  specs: ProductSpecs;
   inStock: number;
   featured: boolean;
+  createdAt?: string;
+  // Packed size, used to quote shipping; products without them count as a
+  // default-sized parcel
+  weightKg?: number;
+  dimensionsCm?: ProductDimensions;
+}
+
+export interface ProductDimensions {
+  length: number;
+  width: number;
+  height: number;
 }
 
 export interface CartItem {
@@ -35,15 +74,278 @@ export interface CartItem {
   price: number;
 }
 
+export interface BuildItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface SavedBuild {
+  id: string;
+  userId: string;
+  name: string;
+  items: BuildItem[];
+  createdAt: string;
+}
+
+export interface Address {
+  fullName: string;
+  street: string;
+  city: string;
+  state?: string;
+  postalCode?: string;
+  // ISO 3166-1 alpha-2 code
+  country: string;
+  phone?: string;
+}
+
+export interface SavedAddress extends Address {
+  id: string;
+  userId: string;
+  label?: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+}
+
+export interface ShippingRate {
+  // Shown to customers and stored on orders as their shipping method
+  id: string;
+  name: string;
+  baseCost: number;
+  costPerKg: number;
+  // Percentage of the merchandise value added to the cost, e.g. for insurance
+  valuePercent?: number;
+  // Merchandise value (after discounts) from which this rate is free
+  freeOver?: number;
+  // Business days from the order to delivery
+  minDays: number;
+  maxDays: number;
+}
+
+// Rates offered to a set of destination countries. A zone without countries
+// covers every country no other zone lists.
+export interface ShippingZone {
+  id: string;
+  name: string;
+  countries: string[];
+  rates: ShippingRate[];
+}
+
+export type CurrencyCode = 'USD' | 'SAR' | 'AED' | 'EUR';
+
+export interface ExchangeRate {
+  currency: CurrencyCode;
+  // Units of this currency per unit of the base currency
+  rate: number;
+  // Converted amounts are rounded to a multiple of this, e.g. 0.05
+  rounding: number;
+  updatedAt?: string;
+}
+
+// An order total in the currency the customer was browsing in, at the rate
+// used at the time
+export interface CurrencyEstimate extends ExchangeRate {
+  total: number;
+}
+
+// A tax charged on orders shipped to a country, or only to one of its states
+// or regions when region is set
+export interface TaxRule {
+  id: string;
+  name: string;
+  // ISO 3166-1 alpha-2 code
+  country: string;
+  region?: string;
+  // Percent of the merchandise value
+  rate: number;
+  // Prices shown to these customers already include the tax
+  inclusive: boolean;
+}
+
+export type PaymentMethod = 'card' | 'cod' | 'bank_transfer' | 'store_credit';
+
+export interface PaymentSettings {
+  codEnabled: boolean;
+  codSurcharge: number;
+  // Largest order total, surcharge included, that can be paid in cash; 0 for no limit
+  codMaxOrderValue: number;
+  bankTransferEnabled: boolean;
+  // Shown to customers who pay by bank transfer
+  bankDetails: {
+    accountName: string;
+    bankName: string;
+    iban: string;
+    swift: string;
+  };
+}
+
+// One movement of a customer's store credit; the balance is their sum
+export interface StoreCreditEntry {
+  id: string;
+  userId: string;
+  // Positive when credit is given, negative when it is spent
+  amount: number;
+  reason: 'adjustment' | 'order' | 'cancellation' | 'refund';
+  orderId?: string;
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+// Why an order wasn't placed; a payment method that can't pay the total
+// gives that method's own reason
+export type OrderError =
+  | 'empty_cart'
+  | 'out_of_stock'
+  | 'promotion'
+  | 'shipping_unavailable'
+  | 'total_changed'
+  | PaymentMethodError;
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  changedAt: string;
+  // Id of the user who made the change; empty for guest checkouts
+  changedBy: string;
+  note?: string;
+}
+
 export interface Order {
   id: string;
   userId: string;
   items: CartItem[];
   total: number;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   createdAt: string;
-  shippingAddress: string;
+  // Orders placed before addresses were structured hold a single line
+  shippingAddress: Address | string;
+  billingAddress?: Address;
   shippingMethod?: string;
+  // Price lines at the time of purchase; total equals pricing.total
+  pricing?: PriceBreakdown;
+  // Contact for orders placed without an account; userId is empty until the
+  // order is claimed by an account with the same email
+  guestEmail?: string;
+  // Every status the order has been in, oldest first
+  statusHistory?: OrderStatusChange[];
+  // Orders placed before payment methods were recorded were paid by card
+  paymentMethod?: PaymentMethod;
+  // When a bank transfer arrived or cash was collected on delivery
+  paymentReceivedAt?: string;
+  // A received bank transfer owed back because the order was cancelled; it's
+  // cleared if the order is reopened before the refund is sent
+  transferRefundDue?: number;
+  // When the admin recorded sending that refund
+  transferRefundedAt?: string;
+  // Totals, pricing and payments are in the base currency, which is what the
+  // customer is charged. This is only an estimate in the currency they were
+  // browsing in.
+  displayed?: CurrencyEstimate;
+}
+
+export interface ShipmentItem {
+  productId: string;
+  quantity: number;
+}
+
+// One parcel of an order; an order's lines can be split across several
+export interface Shipment {
+  id: string;
+  orderId: string;
+  carrier: string;
+  trackingNumber: string;
+  items: ShipmentItem[];
+  shippedAt: string;
+  deliveredAt?: string;
+  createdBy: string;
+}
+
+export type ReturnReason = 'defective' | 'wrong_item' | 'not_as_described' | 'no_longer_needed' | 'other';
+
+export interface ReturnLine {
+  productId: string;
+  quantity: number;
+  reason: ReturnReason;
+  comment?: string;
+}
+
+export interface ReturnRequest {
+  id: string;
+  orderId: string;
+  // Owner of the order when the return was requested; empty for guest orders
+  userId: string;
+  lines: ReturnLine[];
+  status: 'requested' | 'approved' | 'rejected';
+  createdAt: string;
+  // Set when an admin approves or rejects the request
+  resolvedAt?: string;
+  resolvedBy?: string;
+  adminNote?: string;
+  refundAmount?: number;
+  restocked?: boolean;
+}
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'unknown';
+
+export type PaymentStatus =
+  | 'requires_action'
+  | 'authorized'
+  | 'captured'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'voided'
+  | 'declined';
+
+export interface PaymentEvent {
+  type: 'challenge' | 'authorized' | 'declined' | 'captured' | 'refunded' | 'voided';
+  amount?: number;
+  at: string;
+}
+
+// A card payment as the shop sees it. Only what a receipt shows is kept; the
+// card number and CVV never leave the checkout form and the provider.
+export interface Payment {
+  id: string;
+  // Empty until the order is placed, which happens after authorization
+  orderId: string;
+  provider: string;
+  // How the provider refers to the payment
+  providerRef: string;
+  amount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  status: PaymentStatus;
+  card: {
+    brand: CardBrand;
+    last4: string;
+    expMonth: number;
+    expYear: number;
+  };
+  declineCode?: string;
+  events: PaymentEvent[];
+  createdAt: string;
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  // Entered at checkout; promotions without a code apply by themselves
+  code?: string;
+  type: 'percentage' | 'fixed';
+  value: number;
+  // order: the whole cart; category/product: the lines in targetIds; bundle:
+  // one unit from each category in targetIds, which must all be in the cart
+  scope: 'order' | 'category' | 'product' | 'bundle';
+  targetIds: string[];
+  minCartValue?: number;
+  // Uses across all customers and per customer; cancelled orders don't count
+  usageLimit?: number;
+  perUserLimit?: number;
+  // Last day the promotion can be used (YYYY-MM-DD)
+  expiresAt?: string;
+  active: boolean;
+  createdAt: string;
 }
 
 export interface Message {
@@ -74,7 +376,22 @@ const STORAGE_KEYS = {
   CART: 'pc_shop_cart',
   CURRENT_USER: 'pc_shop_current_user',
   MESSAGES: 'pc_shop_messages',
-  NOTIFICATIONS: 'pc_shop_notifications'
+  NOTIFICATIONS: 'pc_shop_notifications',
+  BUILDS: 'pc_shop_builds',
+  COMPARE: 'pc_shop_compare',
+  RECENT_SEARCHES: 'pc_shop_recent_searches',
+  PROMOTIONS: 'pc_shop_promotions',
+  RETURNS: 'pc_shop_returns',
+  SHIPMENTS: 'pc_shop_shipments',
+  ADDRESSES: 'pc_shop_addresses',
+  SHIPPING_ZONES: 'pc_shop_shipping_zones',
+  PAYMENTS: 'pc_shop_payments',
+  PAYMENT_SETTINGS: 'pc_shop_payment_settings',
+  STORE_CREDIT: 'pc_shop_store_credit',
+  TAX_RULES: 'pc_shop_tax_rules',
+  EXCHANGE_RATES: 'pc_shop_exchange_rates',
+  DISPLAY_CURRENCY: 'pc_shop_display_currency',
+  SPECS_VERSION: 'pc_shop_specs_version'
 } as const;
 
 // Generic storage functions
@@ -132,6 +449,7 @@ export const userStorage = {
     
     users.push(newUser);
     userStorage.saveUsers(users);
+    orderStorage.claimGuestOrders(newUser.id, newUser.email);
     return newUser;
   },
   
@@ -140,21 +458,39 @@ export const userStorage = {
     const user = users.find(u => u.email === email && u.password === password);
     if (user) {
       userStorage.setCurrentUser(user);
+      if (user.role !== 'admin') {
+        cartStorage.mergeGuestCart(user.id);
+        orderStorage.claimGuestOrders(user.id, user.email);
+      }
     }
     return user || null;
   }
 };
 
+// Gallery URLs come from a one-per-line admin field, so blank lines are dropped
+const cleanImageUrls = (images?: string[]): string[] | undefined => {
+  const urls = (images || []).map(url => url.trim()).filter(Boolean);
+  return urls.length > 0 ? urls : undefined;
+};
+
 // Product management
 export const productStorage = {
   getProducts: (): Product[] => storage.get<Product>(STORAGE_KEYS.PRODUCTS),
   saveProducts: (products: Product[]): void => storage.set(STORAGE_KEYS.PRODUCTS, products),
   
-  addProduct: (product: Omit<Product, 'id'>): Product => {
+  addProduct: (product: Omit<Product, 'id'>): Product | null => {
+    const specs = normalizeSpecs(product.categoryId, product.specs);
+    if (validateSpecs(product.categoryId, specs).length > 0) {
+      return null; // Specs don't match the category schema
+    }
+
     const products = productStorage.getProducts();
     const newProduct: Product = {
       ...product,
-      id: crypto.randomUUID()
+      specs,
+      images: cleanImageUrls(product.images),
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString()
     };
     products.push(newProduct);
     productStorage.saveProducts(products);
@@ -165,12 +501,31 @@ export const productStorage = {
     const products = productStorage.getProducts();
     const index = products.findIndex(p => p.id === id);
     if (index !== -1) {
-      products[index] = { ...products[index], ...updates };
+      const updated = { ...products[index], ...updates };
+      updated.specs = normalizeSpecs(updated.categoryId, updated.specs);
+      updated.images = cleanImageUrls(updated.images);
+      if (validateSpecs(updated.categoryId, updated.specs).length > 0) {
+        return false;
+      }
+
+      products[index] = updated;
       productStorage.saveProducts(products);
       return true;
     }
     return false;
   },
+
+  // Parse free-form specs saved before the spec schema into its typed form
+  migrateSpecs: (): void => {
+    if (storage.getSingle<number>(STORAGE_KEYS.SPECS_VERSION) === 1) return;
+
+    const products = productStorage.getProducts().map(product => ({
+      ...product,
+      specs: migrateLegacySpecs(product.categoryId, product.specs)
+    }));
+    productStorage.saveProducts(products);
+    storage.setSingle(STORAGE_KEYS.SPECS_VERSION, 1);
+  },
   
   deleteProduct: (id: string): boolean => {
     const products = productStorage.getProducts();
@@ -187,21 +542,66 @@ export const categoryStorage = {
 };
 
 // Cart management
+const getStock = (productId: string): number => {
+  return productStorage.getProducts().find(p => p.id === productId)?.inStock ?? 0;
+};
+
+// Each account keeps its own cart; the unsuffixed key holds the guest cart
+const getUserCartKey = (userId: string): string => `${STORAGE_KEYS.CART}_${userId}`;
+
+const getCartKey = (): string => {
+  const currentUser = userStorage.getCurrentUser();
+  return currentUser ? getUserCartKey(currentUser.id) : STORAGE_KEYS.CART;
+};
+
 export const cartStorage = {
-  getCart: (): CartItem[] => storage.get<CartItem>(STORAGE_KEYS.CART),
-  saveCart: (cart: CartItem[]): void => storage.set(STORAGE_KEYS.CART, cart),
+  getCart: (): CartItem[] => storage.get<CartItem>(getCartKey()),
+  saveCart: (cart: CartItem[]): void => storage.set(getCartKey(), cart),
+
+  // Move the guest cart into the user's cart after login. Products in both
+  // carts get the sum of the two quantities, capped at the stock, and the
+  // guest's price since it was added last.
+  mergeGuestCart: (userId: string): void => {
+    const guestCart = storage.get<CartItem>(STORAGE_KEYS.CART);
+    if (guestCart.length === 0) {
+      return;
+    }
+
+    const userKey = getUserCartKey(userId);
+    const cart = storage.get<CartItem>(userKey);
+    guestCart.forEach(guestItem => {
+      const stock = getStock(guestItem.productId);
+      const existingItem = cart.find(item => item.productId === guestItem.productId);
+      if (existingItem) {
+        existingItem.quantity = Math.min(existingItem.quantity + guestItem.quantity, stock);
+        existingItem.price = guestItem.price;
+      } else {
+        cart.push({ ...guestItem, quantity: Math.min(guestItem.quantity, stock) });
+      }
+    });
+
+    storage.set(userKey, cart.filter(item => item.quantity > 0));
+    storage.remove(STORAGE_KEYS.CART);
+  },
   
-  addToCart: (productId: string, price: number, quantity: number = 1): void => {
+  // Returns how many were actually added; the line never exceeds the stock
+  addToCart: (productId: string, price: number, quantity: number = 1): number => {
     const cart = cartStorage.getCart();
     const existingItem = cart.find(item => item.productId === productId);
+    const inCart = existingItem?.quantity || 0;
+    const added = Math.max(0, Math.min(quantity, getStock(productId) - inCart));
+    if (added === 0) {
+      return 0;
+    }
     
     if (existingItem) {
-      existingItem.quantity += quantity;
+      existingItem.quantity += added;
     } else {
-      cart.push({ productId, quantity, price });
+      cart.push({ productId, quantity: added, price });
     }
     
     cartStorage.saveCart(cart);
+    return added;
   },
   
   removeFromCart: (productId: string): void => {
@@ -210,17 +610,41 @@ export const cartStorage = {
     cartStorage.saveCart(filtered);
   },
   
-  updateQuantity: (productId: string, quantity: number): void => {
+  // Returns the quantity the line ended up with, trimmed to the stock
+  updateQuantity: (productId: string, quantity: number): number => {
     const cart = cartStorage.getCart();
     const item = cart.find(item => item.productId === productId);
-    if (item) {
-      if (quantity <= 0) {
-        cartStorage.removeFromCart(productId);
-      } else {
-        item.quantity = quantity;
-        cartStorage.saveCart(cart);
-      }
+    if (!item) {
+      return 0;
     }
+
+    const allowed = Math.min(quantity, getStock(productId));
+    if (allowed <= 0) {
+      cartStorage.removeFromCart(productId);
+      return 0;
+    }
+    item.quantity = allowed;
+    cartStorage.saveCart(cart);
+    return allowed;
+  },
+
+  // Trim lines to what is in stock now, dropping sold-out ones. Returns true
+  // if anything changed.
+  trimToStock: (): boolean => {
+    const products = productStorage.getProducts();
+    const cart = cartStorage.getCart();
+    const trimmed = cart
+      .map(item => ({
+        ...item,
+        quantity: Math.min(item.quantity, products.find(p => p.id === item.productId)?.inStock ?? 0)
+      }))
+      .filter(item => item.quantity > 0);
+
+    const changed = trimmed.length !== cart.length || trimmed.some((item, i) => item.quantity !== cart[i].quantity);
+    if (changed) {
+      cartStorage.saveCart(trimmed);
+    }
+    return changed;
   },
   
   clearCart: (): void => {
@@ -233,60 +657,592 @@ export const cartStorage = {
   }
 };
 
+export interface StockShortage {
+  productId: string;
+  requested: number;
+  available: number;
+}
+
+// Add (or with sign -1 remove) the order's quantities to product stock
+const adjustStock = (items: Pick<CartItem, 'productId' | 'quantity'>[], sign: 1 | -1): void => {
+  const products = productStorage.getProducts();
+  items.forEach(item => {
+    const product = products.find(p => p.id === item.productId);
+    if (product) {
+      product.inStock = Math.max(0, product.inStock + sign * item.quantity);
+    }
+  });
+  productStorage.saveProducts(products);
+};
+
 // Order management
 export const orderStorage = {
   getOrders: (): Order[] => storage.get<Order>(STORAGE_KEYS.ORDERS),
   saveOrders: (orders: Order[]): void => storage.set(STORAGE_KEYS.ORDERS, orders),
+
+  // Products the items ask more of than is in stock, summed per product
+  getStockShortages: (items: CartItem[]): StockShortage[] => {
+    const products = productStorage.getProducts();
+    const requested = new Map<string, number>();
+    items.forEach(item => requested.set(item.productId, (requested.get(item.productId) || 0) + item.quantity));
+
+    return Array.from(requested.entries())
+      .map(([productId, quantity]) => ({
+        productId,
+        requested: quantity,
+        available: products.find(p => p.id === productId)?.inStock ?? 0
+      }))
+      .filter(shortage => shortage.requested > shortage.available);
+  },
   
-  createOrder: (userId: string, items: CartItem[], shippingAddress: string, shippingMethod?: string): Order => {
+  // Every line is checked against stock before anything is written, so an
+  // order is either placed with all its stock taken or not placed at all.
+  // expectedTotal is what the customer agreed to and the card was authorized
+  // for; if the order would now cost something else, it isn't placed.
+  createOrder: (
+    userId: string,
+    items: CartItem[],
+    shippingAddress: Address,
+    shippingMethod?: string,
+    promotionCode?: string,
+    guestEmail?: string,
+    billingAddress?: Address,
+    paymentMethod: PaymentMethod = 'card',
+    currency: CurrencyCode = BASE_CURRENCY,
+    expectedTotal?: number
+  ): Order | OrderError => {
+    if (items.length === 0) {
+      return 'empty_cart';
+    }
+    if (orderStorage.getStockShortages(items).length > 0) {
+      return 'out_of_stock';
+    }
+
+    // Promotions are checked again against the current rules and past orders,
+    // so an expired or used-up promotion from a stale checkout isn't given; an
+    // entered code that no longer applies places no order
+    const promotionContext: PromotionContext = {
+      items,
+      products: productStorage.getProducts(),
+      orders: orderStorage.getOrders(),
+      customer: { userId: userId || undefined, email: userStorage.getUsers().find(u => u.id === userId)?.email || guestEmail }
+    };
+    const codePromotion = promotionCode ? promotionStorage.getPromotionByCode(promotionCode) : null;
+    if (promotionCode && (!codePromotion || checkPromotion(codePromotion, promotionContext))) {
+      return 'promotion';
+    }
+    const discounts = getPromotionDiscounts(promotionStorage.getPromotions(), promotionContext, codePromotion);
+
+    // Shipping is quoted again from the current zones, parcel and discounts;
+    // a method the destination doesn't offer places no order
+    const shipping = shippingMethod
+      ? getShippingQuotes(
+          shippingZoneStorage.getZones(),
+          items,
+          productStorage.getProducts(),
+          shippingAddress.country,
+          getMerchandiseValue(items, discounts)
+        ).find(quote => quote.id === shippingMethod)
+      : undefined;
+    if (shippingMethod && !shipping) {
+      return 'shipping_unavailable';
+    }
+
+    // The method must still be able to pay the total, surcharge included
+    const settings = paymentSettingsStorage.getSettings();
+    const pricing = calculatePricing(
+      items,
+      shipping,
+      discounts,
+      getPaymentSurcharge(paymentMethod, settings),
+      findTaxRules(taxRuleStorage.getRules(), shippingAddress)
+    );
+    const paymentError = checkPaymentMethod(paymentMethod, {
+      settings,
+      total: pricing.total - (pricing.paymentSurcharge || 0),
+      signedIn: !!userId,
+      creditBalance: userId ? storeCreditStorage.getBalance(userId) : 0
+    });
+    if (paymentError) {
+      return paymentError;
+    }
+    if (expectedTotal !== undefined && pricing.total !== roundCents(expectedTotal)) {
+      return 'total_changed';
+    }
+
     const orders = orderStorage.getOrders();
-    const total = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    const createdAt = new Date().toISOString();
+    const exchangeRate = getExchangeRate(currencyStorage.getRates(), currency);
     
     const newOrder: Order = {
       id: crypto.randomUUID(),
       userId,
       items,
-      total,
+      total: pricing.total,
       status: 'pending',
-      createdAt: new Date().toISOString(),
-      shippingAddress,
-      shippingMethod
+      createdAt,
+      shippingAddress: normalizeAddress(shippingAddress),
+      billingAddress: billingAddress ? normalizeAddress(billingAddress) : undefined,
+      shippingMethod,
+      pricing,
+      guestEmail: userId ? undefined : guestEmail?.trim(),
+      statusHistory: [{ status: 'pending', changedAt: createdAt, changedBy: userId }],
+      paymentMethod,
+      displayed: { ...exchangeRate, total: convertFromBase(pricing.total, exchangeRate) }
     };
     
+    adjustStock(items, -1);
     orders.push(newOrder);
     orderStorage.saveOrders(orders);
+    if (paymentMethod === 'store_credit') {
+      storeCreditStorage.addEntry(userId, -pricing.total, 'order', userId, newOrder.id);
+    }
     
     // Create notification for the user
-    notificationStorage.createNotification(
-      userId,
-      'order_status',
-      'Order Placed',
-      `Your order #${newOrder.id.slice(0, 8)} has been placed successfully.`
-    );
+    if (userId) {
+      notificationStorage.createNotification(
+        userId,
+        'order_status',
+        'Order Placed',
+        `Your order #${newOrder.id.slice(0, 8)} has been placed successfully.`
+      );
+    }
     
     return newOrder;
   },
 
-  updateOrderStatus: (orderId: string, status: Order['status']): void => {
+  // Finds an order by its full id or the short id shown to customers, as long
+  // as the email is the one it was placed with
+  findOrder: (orderId: string, email: string): Order | null => {
+    const id = orderId.trim().replace(/^#/, '').toLowerCase();
+    const contact = email.trim().toLowerCase();
+    if (id.length < 8 || !contact) return null;
+
+    const users = userStorage.getUsers();
+    const order = orderStorage.getOrders().find(o => {
+      if (!o.id.startsWith(id)) return false;
+      const orderEmail = o.guestEmail || users.find(u => u.id === o.userId)?.email;
+      return orderEmail?.toLowerCase() === contact;
+    });
+    return order || null;
+  },
+
+  // Hands guest orders placed with this email to the account; returns how many
+  claimGuestOrders: (userId: string, email: string): number => {
+    const orders = orderStorage.getOrders();
+    const contact = email.trim().toLowerCase();
+    let claimed = 0;
+
+    orders.forEach(order => {
+      if (!order.userId && order.guestEmail?.toLowerCase() === contact) {
+        order.userId = userId;
+        claimed++;
+      }
+    });
+
+    if (claimed > 0) {
+      orderStorage.saveOrders(orders);
+    }
+    return claimed;
+  },
+
+  // Only moves allowed by ORDER_TRANSITIONS succeed, and each one is added to
+  // the order's history. Cancelling returns the order's stock; reopening a
+  // cancelled order takes it again and fails if it is no longer available.
+  updateOrderStatus: (orderId: string, status: OrderStatus, changedBy: string, note?: string): boolean => {
     const orders = orderStorage.getOrders();
     const orderIndex = orders.findIndex(o => o.id === orderId);
     
     if (orderIndex !== -1) {
       const order = orders[orderIndex];
       const oldStatus = order.status;
+      if (!canTransition(oldStatus, status)) {
+        return false;
+      }
+      // Shipping is recorded through shipmentStorage.createShipment
+      const shipments = shipmentStorage.getOrderShipments(orderId);
+      if (status === 'shipped' && shipments.length === 0) {
+        return false;
+      }
+      // Bank transfer orders wait for the funds; see markPaymentReceived
+      if (status === 'processing' && order.paymentMethod === 'bank_transfer' && !order.paymentReceivedAt) {
+        return false;
+      }
+
+      // Orders paid with store credit give it back when cancelled and take it
+      // again when reopened. A received bank transfer is recorded as owed back
+      // until the admin sends it; after that the order can't be reopened.
+      const paidWithCredit = order.paymentMethod === 'store_credit' && !!order.userId;
+      const transferReceived = order.paymentMethod === 'bank_transfer' && !!order.paymentReceivedAt;
+      if (oldStatus !== 'cancelled' && status === 'cancelled') {
+        adjustStock(order.items, 1);
+        if (paidWithCredit) {
+          storeCreditStorage.addEntry(order.userId, order.total, 'cancellation', changedBy, orderId);
+        }
+        if (transferReceived) {
+          order.transferRefundDue = order.total;
+        }
+      } else if (oldStatus === 'cancelled' && status !== 'cancelled') {
+        if (isPaymentReleased(paymentStorage.getOrderPayment(orderId)) || order.transferRefundedAt) {
+          return false;
+        }
+        if (orderStorage.getStockShortages(order.items).length > 0) {
+          return false;
+        }
+        if (paidWithCredit && !storeCreditStorage.addEntry(order.userId, -order.total, 'order', changedBy, orderId)) {
+          return false;
+        }
+        adjustStock(order.items, -1);
+        order.transferRefundDue = undefined;
+      }
+
+      if (status === 'delivered' && order.paymentMethod === 'cod' && !order.paymentReceivedAt) {
+        order.paymentReceivedAt = new Date().toISOString();
+      }
+
+      order.statusHistory = [
+        ...getStatusHistory(order),
+        { status, changedAt: new Date().toISOString(), changedBy, note: note?.trim() || undefined }
+      ];
       order.status = status;
       orderStorage.saveOrders(orders);
+
+      if (status === 'delivered') {
+        shipmentStorage.markOrderDelivered(orderId);
+      }
       
       // Create notification for status change
-      if (oldStatus !== status) {
+      if (order.userId) {
+        const tracking = status === 'shipped' ? ` Tracking: ${shipments.map(describeShipment).join(', ')}.` : '';
         notificationStorage.createNotification(
           order.userId,
           'order_status',
           'Order Status Updated',
-          `Your order #${orderId.slice(0, 8)} status changed to ${status}.`
+          `Your order #${orderId.slice(0, 8)} status changed to ${status}.${tracking}`
         );
       }
+      return true;
+    }
+    return false;
+  },
+
+  // Records a bank transfer as received and starts working on the order
+  markPaymentReceived: (orderId: string, changedBy: string): boolean => {
+    const orders = orderStorage.getOrders();
+    const order = orders.find(o => o.id === orderId);
+    if (!order || order.paymentMethod !== 'bank_transfer' || order.paymentReceivedAt || order.status !== 'pending') {
+      return false;
+    }
+
+    order.paymentReceivedAt = new Date().toISOString();
+    orderStorage.saveOrders(orders);
+    return orderStorage.updateOrderStatus(orderId, 'processing', changedBy, 'Bank transfer received');
+  },
+
+  // Records that a cancelled order's bank transfer was sent back
+  markTransferRefunded: (orderId: string): boolean => {
+    const orders = orderStorage.getOrders();
+    const order = orders.find(o => o.id === orderId);
+    if (!order || order.status !== 'cancelled' || !isTransferRefundOwed(order)) {
+      return false;
+    }
+
+    order.transferRefundedAt = new Date().toISOString();
+    orderStorage.saveOrders(orders);
+    if (order.userId) {
+      notificationStorage.createNotification(
+        order.userId,
+        'order_status',
+        'Transfer Refunded',
+        `The bank transfer for your cancelled order #${orderId.slice(0, 8)} has been refunded.`
+      );
+    }
+    return true;
+  }
+};
+
+// Parcels sent for an order, with carrier tracking
+export const shipmentStorage = {
+  getShipments: (): Shipment[] => storage.get<Shipment>(STORAGE_KEYS.SHIPMENTS),
+  saveShipments: (shipments: Shipment[]): void => storage.set(STORAGE_KEYS.SHIPMENTS, shipments),
+
+  getOrderShipments: (orderId: string): Shipment[] => {
+    return shipmentStorage.getShipments().filter(s => s.orderId === orderId);
+  },
+
+  // Units of a product on the order not yet in any shipment
+  getUnshippedQuantity: (order: Order, productId: string): number => {
+    const ordered = order.items
+      .filter(item => item.productId === productId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    const shipped = shipmentStorage.getOrderShipments(order.id)
+      .flatMap(s => s.items)
+      .filter(item => item.productId === productId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    return Math.max(0, ordered - shipped);
+  },
+
+  // The first shipment of a processing order moves it to shipped; later ones
+  // send the rest of a split order and notify the customer on their own
+  createShipment: (
+    orderId: string,
+    carrier: string,
+    trackingNumber: string,
+    items: ShipmentItem[],
+    createdBy: string
+  ): Shipment | null => {
+    const order = orderStorage.getOrders().find(o => o.id === orderId);
+    const shippedItems = items.filter(item => item.quantity > 0);
+    if (!order || !trackingNumber.trim() || shippedItems.length === 0) {
+      return null;
+    }
+    if (order.status !== 'processing' && order.status !== 'shipped') {
+      return null;
+    }
+    if (shippedItems.some(item => item.quantity > shipmentStorage.getUnshippedQuantity(order, item.productId))) {
+      return null; // More units than are left to ship
+    }
+
+    const shipments = shipmentStorage.getShipments();
+    const newShipment: Shipment = {
+      id: crypto.randomUUID(),
+      orderId,
+      carrier,
+      trackingNumber: trackingNumber.trim(),
+      items: shippedItems,
+      shippedAt: new Date().toISOString(),
+      createdBy
+    };
+    shipments.push(newShipment);
+    shipmentStorage.saveShipments(shipments);
+
+    if (order.status === 'processing') {
+      orderStorage.updateOrderStatus(orderId, 'shipped', createdBy);
+    } else if (order.userId) {
+      notificationStorage.createNotification(
+        order.userId,
+        'order_status',
+        'Order Shipment Sent',
+        `Another shipment for your order #${orderId.slice(0, 8)} is on its way. Tracking: ${describeShipment(newShipment)}.`
+      );
+    }
+    return newShipment;
+  },
+
+  // Once every unit has shipped and every shipment arrived, the order is delivered
+  markShipmentDelivered: (shipmentId: string, changedBy: string): boolean => {
+    const shipments = shipmentStorage.getShipments();
+    const shipment = shipments.find(s => s.id === shipmentId);
+    if (!shipment || shipment.deliveredAt) {
+      return false;
+    }
+
+    shipment.deliveredAt = new Date().toISOString();
+    shipmentStorage.saveShipments(shipments);
+
+    const order = orderStorage.getOrders().find(o => o.id === shipment.orderId);
+    const allDelivered = shipments.filter(s => s.orderId === shipment.orderId).every(s => s.deliveredAt);
+    const allShipped = order?.items.every(item => shipmentStorage.getUnshippedQuantity(order, item.productId) === 0);
+    if (order?.status === 'shipped' && allDelivered && allShipped) {
+      orderStorage.updateOrderStatus(order.id, 'delivered', changedBy);
+    }
+    return true;
+  },
+
+  markOrderDelivered: (orderId: string): void => {
+    const deliveredAt = new Date().toISOString();
+    const shipments = shipmentStorage.getShipments().map(s =>
+      s.orderId === orderId && !s.deliveredAt ? { ...s, deliveredAt } : s
+    );
+    shipmentStorage.saveShipments(shipments);
+  }
+};
+
+// Saved address book entries; each user has at most one default shipping and
+// one default billing address
+type AddressDefault = 'isDefaultShipping' | 'isDefaultBilling';
+
+export const addressStorage = {
+  getAllAddresses: (): SavedAddress[] => storage.get<SavedAddress>(STORAGE_KEYS.ADDRESSES),
+  saveAllAddresses: (addresses: SavedAddress[]): void => storage.set(STORAGE_KEYS.ADDRESSES, addresses),
+
+  getAddresses: (userId: string): SavedAddress[] => {
+    return addressStorage.getAllAddresses().filter(a => a.userId === userId);
+  },
+
+  getDefaultAddress: (userId: string, kind: 'shipping' | 'billing'): SavedAddress | null => {
+    const key: AddressDefault = kind === 'shipping' ? 'isDefaultShipping' : 'isDefaultBilling';
+    return addressStorage.getAddresses(userId).find(a => a[key]) || null;
+  },
+
+  // The first address a user saves becomes both of their defaults
+  addAddress: (userId: string, address: Address, label?: string): SavedAddress | null => {
+    if (validateAddress(address).length > 0) {
+      return null;
+    }
+
+    const addresses = addressStorage.getAllAddresses();
+    const isFirst = !addresses.some(a => a.userId === userId);
+    const newAddress: SavedAddress = {
+      ...normalizeAddress(address),
+      id: crypto.randomUUID(),
+      userId,
+      label: label?.trim() || undefined,
+      isDefaultShipping: isFirst,
+      isDefaultBilling: isFirst
+    };
+    addresses.push(newAddress);
+    addressStorage.saveAllAddresses(addresses);
+    return newAddress;
+  },
+
+  updateAddress: (id: string, address: Address, label?: string): boolean => {
+    const addresses = addressStorage.getAllAddresses();
+    const index = addresses.findIndex(a => a.id === id);
+    if (index === -1 || validateAddress(address).length > 0) {
+      return false;
+    }
+
+    addresses[index] = { ...addresses[index], ...normalizeAddress(address), label: label?.trim() || undefined };
+    addressStorage.saveAllAddresses(addresses);
+    return true;
+  },
+
+  setDefault: (id: string, kind: 'shipping' | 'billing'): void => {
+    const key: AddressDefault = kind === 'shipping' ? 'isDefaultShipping' : 'isDefaultBilling';
+    const addresses = addressStorage.getAllAddresses();
+    const target = addresses.find(a => a.id === id);
+    if (!target) return;
+
+    addresses.forEach(a => {
+      if (a.userId === target.userId) a[key] = a.id === id;
+    });
+    addressStorage.saveAllAddresses(addresses);
+  },
+
+  // A deleted default passes to the user's next address
+  deleteAddress: (id: string): void => {
+    const addresses = addressStorage.getAllAddresses();
+    const removed = addresses.find(a => a.id === id);
+    const remaining = addresses.filter(a => a.id !== id);
+    if (removed) {
+      const next = remaining.find(a => a.userId === removed.userId);
+      if (next && removed.isDefaultShipping) next.isDefaultShipping = true;
+      if (next && removed.isDefaultBilling) next.isDefaultBilling = true;
+    }
+    addressStorage.saveAllAddresses(remaining);
+  }
+};
+
+// Return (RMA) requests for delivered orders
+export const returnStorage = {
+  getReturns: (): ReturnRequest[] => storage.get<ReturnRequest>(STORAGE_KEYS.RETURNS),
+  saveReturns: (returns: ReturnRequest[]): void => storage.set(STORAGE_KEYS.RETURNS, returns),
+
+  getOrderReturns: (orderId: string): ReturnRequest[] => {
+    return returnStorage.getReturns().filter(r => r.orderId === orderId);
+  },
+
+  // Units of a product on the order that aren't already in an open or
+  // approved return
+  getReturnableQuantity: (order: Order, productId: string): number => {
+    const ordered = order.items
+      .filter(item => item.productId === productId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    const returned = returnStorage.getOrderReturns(order.id)
+      .filter(r => r.status !== 'rejected')
+      .flatMap(r => r.lines)
+      .filter(line => line.productId === productId)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    return Math.max(0, ordered - returned);
+  },
+
+  requestReturn: (orderId: string, lines: ReturnLine[]): ReturnRequest | null => {
+    const order = orderStorage.getOrders().find(o => o.id === orderId);
+    const requested = lines.filter(line => line.quantity > 0);
+    if (!order || order.status !== 'delivered' || requested.length === 0) {
+      return null;
+    }
+    if (requested.some(line => line.quantity > returnStorage.getReturnableQuantity(order, line.productId))) {
+      return null; // More units than are left to return
+    }
+
+    const returns = returnStorage.getReturns();
+    const newReturn: ReturnRequest = {
+      id: crypto.randomUUID(),
+      orderId,
+      userId: order.userId,
+      lines: requested,
+      status: 'requested',
+      createdAt: new Date().toISOString()
+    };
+    returns.push(newReturn);
+    returnStorage.saveReturns(returns);
+    return newReturn;
+  },
+
+  // The refund that resolving a return this way would record, or null if the
+  // return is no longer open or the refund is more than the customer paid for
+  // the returned units. Checked before any money is sent back.
+  getResolutionRefund: (returnId: string, status: 'approved' | 'rejected', refundAmount = 0): number | null => {
+    const returns = returnStorage.getReturns();
+    const request = returns.find(r => r.id === returnId);
+    if (!request || request.status !== 'requested') {
+      return null;
+    }
+    if (status === 'rejected') {
+      return 0;
+    }
+    const refund = Math.max(0, roundCents(refundAmount));
+    const order = orderStorage.getOrders().find(o => o.id === request.orderId);
+    if (refund > 0 && (!order || refund > getRefundLimit(order, request.lines, returns))) {
+      return null;
+    }
+    return refund;
+  },
+
+  // Approving records the refund and, when restock is set, puts the returned
+  // units back into stock
+  resolveReturn: (
+    returnId: string,
+    status: 'approved' | 'rejected',
+    resolvedBy: string,
+    refundAmount = 0,
+    restock = false,
+    adminNote?: string
+  ): boolean => {
+    const refund = returnStorage.getResolutionRefund(returnId, status, refundAmount);
+    const returns = returnStorage.getReturns();
+    const request = returns.find(r => r.id === returnId);
+    if (refund === null || !request) {
+      return false;
+    }
+    const order = orderStorage.getOrders().find(o => o.id === request.orderId);
+
+    request.status = status;
+    request.resolvedAt = new Date().toISOString();
+    request.resolvedBy = resolvedBy;
+    request.adminNote = adminNote?.trim() || undefined;
+    if (status === 'approved') {
+      request.refundAmount = refund;
+      request.restocked = restock;
+      if (restock) {
+        adjustStock(request.lines, 1);
+      }
     }
+    returnStorage.saveReturns(returns);
+
+    if (request.userId) {
+      notificationStorage.createNotification(
+        request.userId,
+        'order_status',
+        status === 'approved' ? 'Return Approved' : 'Return Rejected',
+        status === 'approved'
+          ? `Your return for order #${request.orderId.slice(0, 8)} was approved. Refund: ${formatConverted(refund, getBaseRate(), 'en')}.`
+          : `Your return for order #${request.orderId.slice(0, 8)} was rejected.`
+      );
+    }
+    return true;
   }
 };
 
@@ -376,6 +1332,374 @@ export const notificationStorage = {
   }
 };
 
+// Saved PC builds
+export const buildStorage = {
+  getBuilds: (): SavedBuild[] => storage.get<SavedBuild>(STORAGE_KEYS.BUILDS),
+  saveBuilds: (builds: SavedBuild[]): void => storage.set(STORAGE_KEYS.BUILDS, builds),
+
+  getUserBuilds: (userId: string): SavedBuild[] => {
+    const builds = buildStorage.getBuilds();
+    return builds.filter(b => b.userId === userId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  },
+
+  saveBuild: (userId: string, name: string, items: BuildItem[]): SavedBuild => {
+    const builds = buildStorage.getBuilds();
+    const newBuild: SavedBuild = {
+      id: crypto.randomUUID(),
+      userId,
+      name,
+      items,
+      createdAt: new Date().toISOString()
+    };
+
+    builds.push(newBuild);
+    buildStorage.saveBuilds(builds);
+    return newBuild;
+  },
+
+  deleteBuild: (id: string): boolean => {
+    const builds = buildStorage.getBuilds();
+    const filtered = builds.filter(b => b.id !== id);
+    buildStorage.saveBuilds(filtered);
+    return filtered.length < builds.length;
+  },
+
+  // Encode a build as a query string, e.g. "name=Gaming&parts=1:1,301:1,401:2"
+  encodeBuild: (items: BuildItem[], name?: string): string => {
+    const params = new URLSearchParams();
+    if (name) {
+      params.set('name', name);
+    }
+    params.set('parts', items.map(item => `${item.productId}:${item.quantity}`).join(','));
+    return params.toString();
+  },
+
+  // Rebuild a shared build from its query string, dropping products that no longer exist
+  decodeBuild: (query: string | URLSearchParams): { name: string; items: BuildItem[] } => {
+    const params = typeof query === 'string' ? new URLSearchParams(query) : query;
+    const products = productStorage.getProducts();
+    const items = (params.get('parts') || '')
+      .split(',')
+      .map(entry => {
+        const [productId, quantity] = entry.split(':');
+        return { productId, quantity: Math.max(1, parseInt(quantity) || 1) };
+      })
+      .filter(item => products.some(p => p.id === item.productId));
+
+    return { name: params.get('name') || '', items };
+  }
+};
+
+export const MAX_COMPARE_ITEMS = 4;
+
+// Product ids ticked for side-by-side comparison
+export const compareStorage = {
+  getCompare: (): string[] => storage.get<string>(STORAGE_KEYS.COMPARE),
+  saveCompare: (productIds: string[]): void => storage.set(STORAGE_KEYS.COMPARE, productIds),
+
+  addToCompare: (productId: string): boolean => {
+    const productIds = compareStorage.getCompare();
+    if (productIds.includes(productId)) {
+      return true;
+    }
+    if (productIds.length >= MAX_COMPARE_ITEMS) {
+      return false; // Comparison is full
+    }
+    compareStorage.saveCompare([...productIds, productId]);
+    return true;
+  },
+
+  removeFromCompare: (productId: string): void => {
+    compareStorage.saveCompare(compareStorage.getCompare().filter(id => id !== productId));
+  },
+
+  clearCompare: (): void => storage.remove(STORAGE_KEYS.COMPARE)
+};
+
+const MAX_RECENT_SEARCHES = 5;
+
+// Queries submitted from the header search, newest first
+export const searchHistoryStorage = {
+  getRecentSearches: (): string[] => storage.get<string>(STORAGE_KEYS.RECENT_SEARCHES),
+
+  addRecentSearch: (query: string): void => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    const recent = searchHistoryStorage.getRecentSearches()
+      .filter(q => q.toLowerCase() !== trimmed.toLowerCase());
+    storage.set(STORAGE_KEYS.RECENT_SEARCHES, [trimmed, ...recent].slice(0, MAX_RECENT_SEARCHES));
+  },
+
+  clearRecentSearches: (): void => storage.remove(STORAGE_KEYS.RECENT_SEARCHES)
+};
+
+// Discount codes and automatic deals such as bundles
+const normalizeCode = (code?: string): string | undefined => code?.trim().toUpperCase() || undefined;
+
+export const promotionStorage = {
+  getPromotions: (): Promotion[] => storage.get<Promotion>(STORAGE_KEYS.PROMOTIONS),
+  savePromotions: (promotions: Promotion[]): void => storage.set(STORAGE_KEYS.PROMOTIONS, promotions),
+
+  getPromotionByCode: (code: string): Promotion | null => {
+    const normalized = normalizeCode(code);
+    if (!normalized) return null;
+    return promotionStorage.getPromotions().find(p => p.code === normalized) || null;
+  },
+
+  addPromotion: (promotion: Omit<Promotion, 'id' | 'createdAt'>): Promotion | null => {
+    const promotions = promotionStorage.getPromotions();
+    const code = normalizeCode(promotion.code);
+    if (code && promotions.some(p => p.code === code)) {
+      return null; // Code already in use
+    }
+
+    const newPromotion: Promotion = {
+      ...promotion,
+      code,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString()
+    };
+    promotions.push(newPromotion);
+    promotionStorage.savePromotions(promotions);
+    return newPromotion;
+  },
+
+  updatePromotion: (id: string, updates: Partial<Promotion>): boolean => {
+    const promotions = promotionStorage.getPromotions();
+    const index = promotions.findIndex(p => p.id === id);
+    if (index === -1) return false;
+
+    const updated = { ...promotions[index], ...updates };
+    updated.code = normalizeCode(updated.code);
+    if (updated.code && promotions.some(p => p.id !== id && p.code === updated.code)) {
+      return false;
+    }
+
+    promotions[index] = updated;
+    promotionStorage.savePromotions(promotions);
+    return true;
+  },
+
+  deletePromotion: (id: string): void => {
+    promotionStorage.savePromotions(promotionStorage.getPromotions().filter(p => p.id !== id));
+  }
+};
+
+// Payment records; the provider calls that change them are in payments.ts
+export const paymentStorage = {
+  getPayments: (): Payment[] => storage.get<Payment>(STORAGE_KEYS.PAYMENTS),
+  savePayments: (payments: Payment[]): void => storage.set(STORAGE_KEYS.PAYMENTS, payments),
+
+  getPayment: (id: string): Payment | null => {
+    return paymentStorage.getPayments().find(p => p.id === id) || null;
+  },
+
+  // The payment that paid for an order; declined attempts aren't linked
+  getOrderPayment: (orderId: string): Payment | null => {
+    return paymentStorage.getPayments().find(p => p.orderId === orderId) || null;
+  },
+
+  addPayment: (payment: Omit<Payment, 'id' | 'createdAt'>): Payment => {
+    const payments = paymentStorage.getPayments();
+    const newPayment: Payment = {
+      ...payment,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString()
+    };
+    payments.push(newPayment);
+    paymentStorage.savePayments(payments);
+    return newPayment;
+  },
+
+  updatePayment: (id: string, updates: Partial<Payment>, event?: PaymentEvent): Payment | null => {
+    const payments = paymentStorage.getPayments();
+    const index = payments.findIndex(p => p.id === id);
+    if (index === -1) return null;
+
+    const payment = payments[index];
+    payments[index] = {
+      ...payment,
+      ...updates,
+      events: event ? [...payment.events, event] : payment.events
+    };
+    paymentStorage.savePayments(payments);
+    return payments[index];
+  }
+};
+
+// Settings for the payment methods other than cards
+export const paymentSettingsStorage = {
+  getSettings: (): PaymentSettings => ({
+    ...DEFAULT_PAYMENT_SETTINGS,
+    ...storage.getSingle<PaymentSettings>(STORAGE_KEYS.PAYMENT_SETTINGS)
+  }),
+  saveSettings: (settings: PaymentSettings): void => storage.setSingle(STORAGE_KEYS.PAYMENT_SETTINGS, settings)
+};
+
+// Store credit ledger
+export const storeCreditStorage = {
+  getEntries: (): StoreCreditEntry[] => storage.get<StoreCreditEntry>(STORAGE_KEYS.STORE_CREDIT),
+  saveEntries: (entries: StoreCreditEntry[]): void => storage.set(STORAGE_KEYS.STORE_CREDIT, entries),
+
+  getUserEntries: (userId: string): StoreCreditEntry[] => {
+    return storeCreditStorage.getEntries().filter(e => e.userId === userId);
+  },
+
+  getBalance: (userId: string): number => {
+    return roundCents(storeCreditStorage.getUserEntries(userId).reduce((sum, e) => sum + e.amount, 0));
+  },
+
+  // Null if the entry would take the balance below zero
+  addEntry: (
+    userId: string,
+    amount: number,
+    reason: StoreCreditEntry['reason'],
+    createdBy: string,
+    orderId?: string,
+    note?: string
+  ): StoreCreditEntry | null => {
+    const rounded = roundCents(amount);
+    if (!userId || rounded === 0 || roundCents(storeCreditStorage.getBalance(userId) + rounded) < 0) {
+      return null;
+    }
+
+    const entries = storeCreditStorage.getEntries();
+    const entry: StoreCreditEntry = {
+      id: crypto.randomUUID(),
+      userId,
+      amount: rounded,
+      reason,
+      orderId,
+      note: note?.trim() || undefined,
+      createdBy,
+      createdAt: new Date().toISOString()
+    };
+    entries.push(entry);
+    storeCreditStorage.saveEntries(entries);
+    return entry;
+  },
+
+  // Takes back an entry that was added for something that then failed
+  removeEntry: (entryId: string): boolean => {
+    const entries = storeCreditStorage.getEntries();
+    const remaining = entries.filter(e => e.id !== entryId);
+    if (remaining.length === entries.length) {
+      return false;
+    }
+    storeCreditStorage.saveEntries(remaining);
+    return true;
+  }
+};
+
+// Shipping zone operations. Until an admin saves zones the defaults apply.
+export const shippingZoneStorage = {
+  getZones: (): ShippingZone[] => storage.getSingle<ShippingZone[]>(STORAGE_KEYS.SHIPPING_ZONES) ?? [...DEFAULT_SHIPPING_ZONES],
+  saveZones: (zones: ShippingZone[]): void => storage.setSingle(STORAGE_KEYS.SHIPPING_ZONES, zones),
+
+  addZone: (zone: Omit<ShippingZone, 'id'>): ShippingZone | null => {
+    const zones = shippingZoneStorage.getZones();
+    if (zones.some(z => zonesOverlap(z, zone))) {
+      return null; // A country can only be in one zone
+    }
+
+    const newZone: ShippingZone = { ...zone, id: crypto.randomUUID() };
+    zones.push(newZone);
+    shippingZoneStorage.saveZones(zones);
+    return newZone;
+  },
+
+  updateZone: (id: string, updates: Partial<ShippingZone>): boolean => {
+    const zones = shippingZoneStorage.getZones();
+    const index = zones.findIndex(z => z.id === id);
+    if (index === -1) return false;
+
+    const updated = { ...zones[index], ...updates };
+    if (zones.some(z => z.id !== id && zonesOverlap(z, updated))) {
+      return false;
+    }
+
+    zones[index] = updated;
+    shippingZoneStorage.saveZones(zones);
+    return true;
+  },
+
+  deleteZone: (id: string): void => {
+    shippingZoneStorage.saveZones(shippingZoneStorage.getZones().filter(z => z.id !== id));
+  }
+};
+
+export const taxRuleStorage = {
+  getRules: (): TaxRule[] => storage.getSingle<TaxRule[]>(STORAGE_KEYS.TAX_RULES) ?? [...DEFAULT_TAX_RULES],
+  saveRules: (rules: TaxRule[]): void => storage.setSingle(STORAGE_KEYS.TAX_RULES, rules),
+
+  addRule: (rule: Omit<TaxRule, 'id'>): TaxRule | null => {
+    const rules = taxRuleStorage.getRules();
+    const newRule: TaxRule = {
+      ...rule,
+      id: crypto.randomUUID(),
+      country: rule.country.toUpperCase(),
+      region: rule.region?.trim() || undefined
+    };
+    if (rules.some(r => taxRulesOverlap(r, newRule))) {
+      return null; // The same tax can't be set twice for a jurisdiction
+    }
+
+    rules.push(newRule);
+    taxRuleStorage.saveRules(rules);
+    return newRule;
+  },
+
+  updateRule: (id: string, updates: Partial<TaxRule>): boolean => {
+    const rules = taxRuleStorage.getRules();
+    const index = rules.findIndex(r => r.id === id);
+    if (index === -1) return false;
+
+    const updated = { ...rules[index], ...updates, id };
+    updated.country = updated.country.toUpperCase();
+    updated.region = updated.region?.trim() || undefined;
+    if (rules.some(r => r.id !== id && taxRulesOverlap(r, updated))) {
+      return false;
+    }
+
+    rules[index] = updated;
+    taxRuleStorage.saveRules(rules);
+    return true;
+  },
+
+  deleteRule: (id: string): void => {
+    taxRuleStorage.saveRules(taxRuleStorage.getRules().filter(r => r.id !== id));
+  }
+};
+
+export const currencyStorage = {
+  // Every supported currency has a rate; ones the admin hasn't set use the defaults
+  getRates: (): ExchangeRate[] => {
+    const saved = storage.getSingle<ExchangeRate[]>(STORAGE_KEYS.EXCHANGE_RATES) || [];
+    return CURRENCIES.map(code => saved.find(rate => rate.currency === code) || getExchangeRate(DEFAULT_EXCHANGE_RATES, code));
+  },
+  saveRates: (rates: ExchangeRate[]): void => storage.setSingle(STORAGE_KEYS.EXCHANGE_RATES, rates),
+
+  // The base currency's rate is always 1
+  updateRate: (currency: CurrencyCode, rate: number, rounding: number): boolean => {
+    if (!(rate > 0) || !(rounding > 0) || (currency === BASE_CURRENCY && rate !== 1)) {
+      return false;
+    }
+
+    const rates = currencyStorage.getRates().map(r =>
+      r.currency === currency ? { currency, rate, rounding, updatedAt: new Date().toISOString() } : r
+    );
+    currencyStorage.saveRates(rates);
+    return true;
+  },
+
+  getDisplayCurrency: (): CurrencyCode => {
+    const saved = storage.getSingle<CurrencyCode>(STORAGE_KEYS.DISPLAY_CURRENCY);
+    return saved && CURRENCIES.includes(saved) ? saved : BASE_CURRENCY;
+  },
+  setDisplayCurrency: (currency: CurrencyCode): void => storage.setSingle(STORAGE_KEYS.DISPLAY_CURRENCY, currency)
+};
+
 // Initialize default data
 export const initializeDefaultData = (): void => {
   // Create default admin user
@@ -403,6 +1727,9 @@ export const initializeDefaultData = (): void => {
     categoryStorage.saveCategories(defaultCategories);
   }
 
+  // Bring products saved before the spec schema up to date
+  productStorage.migrateSpecs();
+
   // Create default products
   const products = productStorage.getProducts();
   if (products.length === 0) {
@@ -415,6 +1742,10 @@ export const initializeDefaultData = (): void => {
         price: 699,
         categoryId: '1',
         imageUrl: 'https://images.unsplash.com/photo-1591799264318-7e6ef8ddb7ea?w=400',
+        images: [
+          'https://images.unsplash.com/photo-1518770660439-4636190af475?w=400',
+          'https://images.unsplash.com/photo-1555617981-dac3880eac6e?w=400'
+        ],
         specs: { cores: '16', threads: '32', 'base clock': '4.5 GHz', 'boost clock': '5.7 GHz', socket: 'AM5' },
         inStock: 25,
         featured: true
@@ -426,6 +1757,7 @@ export const initializeDefaultData = (): void => {
         price: 589,
         categoryId: '1',
         imageUrl: 'https://images.unsplash.com/photo-1518770660439-4636190af475?w=400',
+        images: ['https://images.unsplash.com/photo-1591799264318-7e6ef8ddb7ea?w=400'],
         specs: { cores: '24', threads: '32', 'base clock': '3.0 GHz', 'boost clock': '5.8 GHz', socket: 'LGA1700' },
         inStock: 30,
         featured: true
@@ -549,6 +1881,7 @@ export const initializeDefaultData = (): void => {
         price: 1599,
         categoryId: '2',
         imageUrl: 'https://images.unsplash.com/photo-1587202372634-32705e3bf49c?w=400',
+        images: ['https://images.unsplash.com/photo-1591488320449-011701bb6704?w=400'],
         specs: { memory: '24GB GDDR6X', 'memory speed': '21 Gbps', 'cuda cores': '16384', 'boost clock': '2520 MHz', power: '450W' },
         inStock: 15,
         featured: true
@@ -1123,6 +2456,9 @@ export const initializeDefaultData = (): void => {
         featured: false
       }
     ];
-    productStorage.saveProducts(defaultProducts);
+    productStorage.saveProducts(defaultProducts.map(product => ({
+      ...product,
+      specs: migrateLegacySpecs(product.categoryId, product.specs)
+    })));
   }
 };
\ No newline at end of file
@@ -0,0 +1,99 @@
+// Tax rules by destination and the tax report for the admin dashboard
+import { getOrderPricing, roundCents, type TaxLine } from './pricing';
+import type { Address, Order, TaxRule } from './storage';
+
+// Gulf and Levant prices are shown with VAT in them, so these rules don't
+// change totals. Nothing is added on top of prices until an admin adds a rule.
+export const DEFAULT_TAX_RULES: TaxRule[] = [
+  { id: 'sa', name: 'VAT', country: 'SA', rate: 15, inclusive: true },
+  { id: 'ae', name: 'VAT', country: 'AE', rate: 5, inclusive: true },
+  { id: 'eg', name: 'VAT', country: 'EG', rate: 14, inclusive: true },
+  { id: 'jo', name: 'GST', country: 'JO', rate: 16, inclusive: true }
+];
+
+export type TaxReportPeriod = 'month' | 'quarter' | 'year';
+
+export const TAX_REPORT_PERIODS: TaxReportPeriod[] = ['month', 'quarter', 'year'];
+
+export interface TaxReportRow {
+  // e.g. 2025-03, 2025-Q1 or 2025
+  period: string;
+  name: string;
+  country: string;
+  region?: string;
+  rate: number;
+  inclusive: boolean;
+  orders: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+const sameRegion = (a?: string, b?: string): boolean => (a || '').trim().toUpperCase() === (b || '').trim().toUpperCase();
+
+// Every rule for the destination applies: the country-wide ones and those for
+// its state or region, so a regional tax is charged on top of a national one
+export const findTaxRules = (rules: TaxRule[], address: Pick<Address, 'country' | 'state'>): TaxRule[] => {
+  const country = address.country.trim().toUpperCase();
+  return rules.filter(rule => rule.country === country && (!rule.region || sameRegion(rule.region, address.state)));
+};
+
+// A country may have one rule of each name for the whole country and for each region
+export const taxRulesOverlap = (a: Omit<TaxRule, 'id'>, b: Omit<TaxRule, 'id'>): boolean => {
+  return a.country === b.country && sameRegion(a.region, b.region) && a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+};
+
+// Orders placed before taxes were itemized show their single rate as one line
+export const getOrderTaxLines = (order: Order): TaxLine[] => {
+  const pricing = getOrderPricing(order);
+  if (pricing.taxes) return pricing.taxes;
+  if (pricing.tax <= 0) return [];
+
+  const country = typeof order.shippingAddress === 'string' ? '' : order.shippingAddress.country;
+  return [{
+    name: 'Tax',
+    country,
+    rate: roundCents(pricing.taxRate * 100),
+    inclusive: false,
+    taxableAmount: roundCents(pricing.subtotal - pricing.discountTotal),
+    amount: pricing.tax
+  }];
+};
+
+export const getReportPeriod = (date: Date, period: TaxReportPeriod): string => {
+  const year = date.getFullYear();
+  if (period === 'year') return String(year);
+  if (period === 'quarter') return `${year}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+  return `${year}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Tax collected per period and jurisdiction, newest period first. Cancelled
+// orders collected nothing and are left out.
+export const getTaxReport = (orders: Order[], period: TaxReportPeriod): TaxReportRow[] => {
+  const rows = new Map<string, TaxReportRow>();
+
+  orders.filter(order => order.status !== 'cancelled').forEach(order => {
+    const orderPeriod = getReportPeriod(new Date(order.createdAt), period);
+    getOrderTaxLines(order).forEach(line => {
+      const key = [orderPeriod, line.country, line.region || '', line.name, line.rate, line.inclusive].join('|');
+      const row = rows.get(key) || {
+        period: orderPeriod,
+        name: line.name,
+        country: line.country,
+        region: line.region,
+        rate: line.rate,
+        inclusive: line.inclusive,
+        orders: 0,
+        taxableAmount: 0,
+        amount: 0
+      };
+      row.orders += 1;
+      row.taxableAmount = roundCents(row.taxableAmount + line.taxableAmount);
+      row.amount = roundCents(row.amount + line.amount);
+      rows.set(key, row);
+    });
+  });
+
+  return Array.from(rows.values()).sort((a, b) =>
+    b.period.localeCompare(a.period) || a.country.localeCompare(b.country) || a.name.localeCompare(b.name)
+  );
+};
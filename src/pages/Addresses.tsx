@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { Header } from '@/components/Header';
+import { AddressFields } from '@/components/AddressFields';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Edit, MapPin, Plus, Trash2 } from 'lucide-react';
+import { emptyAddress, formatAddress, normalizeAddress, validateAddress, type AddressError } from '@/lib/address';
+import {
+  addressStorage,
+  cartStorage,
+  userStorage,
+  type Address,
+  type SavedAddress
+} from '@/lib/storage';
+
+export function Addresses() {
+  const currentUser = userStorage.getCurrentUser();
+  const [addresses, setAddresses] = useState<SavedAddress[]>(() =>
+    currentUser ? addressStorage.getAddresses(currentUser.id) : []
+  );
+  const [form, setForm] = useState<Address>(emptyAddress);
+  const [label, setLabel] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<AddressError[]>([]);
+  const { language, t } = useLanguage();
+
+  const cartItemCount = cartStorage.getCart().reduce((total, item) => total + item.quantity, 0);
+
+  const refresh = () => {
+    if (currentUser) {
+      setAddresses(addressStorage.getAddresses(currentUser.id));
+    }
+  };
+
+  const resetForm = () => {
+    setForm(emptyAddress());
+    setLabel('');
+    setEditingId(null);
+    setErrors([]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    const newErrors = validateAddress(form);
+    setErrors(newErrors);
+    if (newErrors.length > 0) {
+      return;
+    }
+
+    if (editingId) {
+      addressStorage.updateAddress(editingId, form, label);
+    } else {
+      addressStorage.addAddress(currentUser.id, form, label);
+    }
+    refresh();
+    resetForm();
+    toast({ title: t('common.success'), description: t('address.saved') });
+  };
+
+  const startEditing = (address: SavedAddress) => {
+    setEditingId(address.id);
+    setForm({ ...emptyAddress(), ...normalizeAddress(address) });
+    setLabel(address.label || '');
+    setErrors([]);
+  };
+
+  const deleteAddress = (id: string) => {
+    addressStorage.deleteAddress(id);
+    refresh();
+    if (editingId === id) {
+      resetForm();
+    }
+  };
+
+  const setDefault = (id: string, kind: 'shipping' | 'billing') => {
+    addressStorage.setDefault(id, kind);
+    refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header cartItemCount={cartItemCount} />
+
+      <main className="container mx-auto px-4 py-4 sm:py-8">
+        <h1 className="text-2xl sm:text-3xl font-bold mb-6 sm:mb-8">{t('address.book_title')}</h1>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            {addresses.length === 0 ? (
+              <Card>
+                <CardContent className="p-6 text-center text-muted-foreground">
+                  <MapPin className="mx-auto h-10 w-10 mb-2" />
+                  {t('address.none')}
+                </CardContent>
+              </Card>
+            ) : (
+              addresses.map((address) => (
+                <Card key={address.id}>
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="space-y-1">
+                        {address.label && <h3 className="font-semibold">{address.label}</h3>}
+                        <p className="text-sm text-muted-foreground">{formatAddress(address, language)}</p>
+                        {address.phone && <p className="text-sm text-muted-foreground">{address.phone}</p>}
+                      </div>
+                      <div className="flex">
+                        <Button variant="ghost" size="icon" onClick={() => startEditing(address)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => deleteAddress(address.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {address.isDefaultShipping ? (
+                        <Badge>{t('address.default_shipping')}</Badge>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => setDefault(address.id, 'shipping')}>
+                          {t('address.make_default_shipping')}
+                        </Button>
+                      )}
+                      {address.isDefaultBilling ? (
+                        <Badge variant="secondary">{t('address.default_billing')}</Badge>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => setDefault(address.id, 'billing')}>
+                          {t('address.make_default_billing')}
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingId ? t('address.edit') : t('address.add')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="address-label">
+                    {t('address.label')}
+                    <span className="text-muted-foreground"> ({t('address.optional')})</span>
+                  </Label>
+                  <Input
+                    id="address-label"
+                    placeholder={t('address.label_placeholder')}
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                  />
+                </div>
+                <AddressFields idPrefix="book" value={form} onChange={setForm} errors={errors} />
+                <div className="flex gap-2">
+                  <Button type="submit" className="flex-1">
+                    <Plus className="mr-2 h-4 w-4" />
+                    {editingId ? t('address.save') : t('address.add')}
+                  </Button>
+                  {editingId && (
+                    <Button type="button" variant="outline" onClick={resetForm}>
+                      {t('common.cancel')}
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
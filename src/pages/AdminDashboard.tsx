@@ -10,10 +10,34 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { userStorage, productStorage, categoryStorage, orderStorage, messageStorage, notificationStorage } from '@/lib/storage';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { userStorage, productStorage, categoryStorage, orderStorage, messageStorage, notificationStorage, shipmentStorage, paymentStorage } from '@/lib/storage';
 import { Header } from '@/components/Header';
+import { ProductSpecFields } from '@/components/ProductSpecFields';
+import { ProductShippingFields } from '@/components/ProductShippingFields';
+import { PriceSummary } from '@/components/PriceSummary';
+import { PromotionManager } from '@/components/PromotionManager';
+import { OrderTimeline } from '@/components/OrderTimeline';
+import { ReturnManager } from '@/components/ReturnManager';
+import { ShippingZoneManager } from '@/components/ShippingZoneManager';
+import { ShipmentDialog } from '@/components/ShipmentDialog';
+import { ShipmentList } from '@/components/ShipmentList';
+import { PaymentSummary } from '@/components/PaymentSummary';
+import { OrderDocumentLinks } from '@/components/OrderDocumentLinks';
+import { PaymentSettingsManager } from '@/components/PaymentSettingsManager';
+import { TaxRuleManager } from '@/components/TaxRuleManager';
+import { TaxReport } from '@/components/TaxReport';
+import { ExchangeRateManager } from '@/components/ExchangeRateManager';
+import { normalizeSpecs, validateSpecs, type ProductSpecs, type SpecError } from '@/lib/specs';
+import { buildSearchIndex, searchProducts } from '@/lib/search';
+import { getOrderPricing } from '@/lib/pricing';
+import { canTransition, getNextStatuses } from '@/lib/orderStatus';
+import { formatAddress, isSameAddress } from '@/lib/address';
+import { capturePayment, releaseOrderPayment } from '@/lib/payments';
+import { getOrderPaymentMethod, isAwaitingFunds, isPaymentReleased, isTransferRefundOwed } from '@/lib/paymentMethods';
+import { getBaseRate, getOrderEstimate } from '@/lib/currency';
 import { Users, Package, ShoppingCart, BarChart3, Plus, Edit, Trash2, Image, MessageSquare, Send, Bell } from 'lucide-react';
-import type { User, Product, Category, Order, Message } from '@/lib/storage';
+import type { User, Product, ProductDimensions, Category, Order, OrderStatus, Message, Shipment, Payment } from '@/lib/storage';
 
 export const AdminDashboard = () => {
   const [users, setUsers] = useState<User[]>([]);
@@ -22,8 +46,14 @@ export const AdminDashboard = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [newProductSpecErrors, setNewProductSpecErrors] = useState<SpecError[]>([]);
+  const [editingSpecErrors, setEditingSpecErrors] = useState<SpecError[]>([]);
   const [selectedUser, setSelectedUser] = useState<string>('');
+  const [activeTab, setActiveTab] = useState('products');
+  const [productQuery, setProductQuery] = useState('');
   const [messageContent, setMessageContent] = useState('');
+  const [statusNotes, setStatusNotes] = useState<Record<string, string>>({});
+  const [shippingOrder, setShippingOrder] = useState<Order | null>(null);
   const [newUser, setNewUser] = useState({
     name: '',
     email: '',
@@ -36,13 +66,19 @@ export const AdminDashboard = () => {
     price: 0,
     categoryId: '',
     imageUrl: '',
-    specs: {} as Record<string, string>,
+    images: [] as string[],
+    specs: {} as ProductSpecs,
     inStock: 0,
-    featured: false
+    featured: false,
+    weightKg: undefined as number | undefined,
+    dimensionsCm: undefined as ProductDimensions | undefined
   });
   
   const { toast } = useToast();
-  const { t } = useLanguage();
+  const { language, t } = useLanguage();
+  const { formatAmount } = useCurrency();
+  // The dashboard works in the base currency, whatever customers see
+  const formatBase = (amount: number) => formatAmount(amount, getBaseRate());
   const navigate = useNavigate();
   const currentUser = userStorage.getCurrentUser();
 
@@ -87,7 +123,18 @@ export const AdminDashboard = () => {
       return;
     }
 
-    const product = productStorage.addProduct(newProduct);
+    const specErrors = validateSpecs(newProduct.categoryId, normalizeSpecs(newProduct.categoryId, newProduct.specs));
+    setNewProductSpecErrors(specErrors);
+    const product = specErrors.length === 0 ? productStorage.addProduct(newProduct) : null;
+    if (!product) {
+      toast({
+        title: "Invalid specifications",
+        description: "Please correct the highlighted specification fields",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setProducts(productStorage.getProducts());
     setNewProduct({
       name: '',
@@ -95,9 +142,12 @@ export const AdminDashboard = () => {
       price: 0,
       categoryId: '',
       imageUrl: '',
+      images: [],
       specs: {},
       inStock: 0,
-      featured: false
+      featured: false,
+      weightKg: undefined,
+      dimensionsCm: undefined
     });
     
     toast({
@@ -111,7 +161,17 @@ export const AdminDashboard = () => {
     
     if (!editingProduct) return;
 
-    productStorage.updateProduct(editingProduct.id, editingProduct);
+    const specErrors = validateSpecs(editingProduct.categoryId, normalizeSpecs(editingProduct.categoryId, editingProduct.specs));
+    setEditingSpecErrors(specErrors);
+    if (specErrors.length > 0 || !productStorage.updateProduct(editingProduct.id, editingProduct)) {
+      toast({
+        title: "Invalid specifications",
+        description: "Please correct the highlighted specification fields",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setProducts(productStorage.getProducts());
     setEditingProduct(null);
     
@@ -131,16 +191,103 @@ export const AdminDashboard = () => {
     });
   };
 
-  const updateOrderStatus = (orderId: string, status: Order['status']) => {
-    orderStorage.updateOrderStatus(orderId, status);
+  const updateOrderStatus = async (order: Order, status: OrderStatus) => {
+    if (!canTransition(order.status, status)) {
+      toast({
+        title: t('order_status.invalid_title'),
+        description: t('order_status.invalid_transition'),
+        variant: "destructive"
+      });
+      return;
+    }
+    if (order.status === 'cancelled' && isPaymentReleased(paymentStorage.getOrderPayment(order.id))) {
+      toast({
+        title: t('order_status.invalid_title'),
+        description: t('payments.reopen_released'),
+        variant: "destructive"
+      });
+      return;
+    }
+    if (order.status === 'cancelled' && order.transferRefundedAt) {
+      toast({
+        title: t('order_status.invalid_title'),
+        description: t('payment_methods.reopen_refunded'),
+        variant: "destructive"
+      });
+      return;
+    }
+    if (status === 'processing' && isAwaitingFunds(order)) {
+      toast({
+        title: t('order_status.invalid_title'),
+        description: t('payment_methods.awaiting_funds_hint'),
+        variant: "destructive"
+      });
+      return;
+    }
+    // Shipping needs the carrier and tracking details first
+    if (status === 'shipped') {
+      setShippingOrder(order);
+      return;
+    }
+    if (!orderStorage.updateOrderStatus(order.id, status, currentUser?.id || '', statusNotes[order.id])) {
+      toast({
+        title: t('stock.limited_title'),
+        description: t('stock.reopen_failed'),
+        variant: "destructive"
+      });
+      return;
+    }
+    setStatusNotes(prev => ({ ...prev, [order.id]: '' }));
+    // A cancelled order's authorization is voided, or its capture refunded
+    if (status === 'cancelled') {
+      await releaseOrderPayment(order.id);
+    }
+    // Cancelling or reopening an order moves stock
     setOrders(orderStorage.getOrders());
+    setProducts(productStorage.getProducts());
     
     toast({
       title: "Order status updated",
-      description: `Order #${orderId.slice(0, 8)} status changed to ${status}`
+      description: `Order #${order.id.slice(0, 8)} status changed to ${status}`
     });
   };
 
+  const markPaymentReceived = (order: Order) => {
+    if (!orderStorage.markPaymentReceived(order.id, currentUser?.id || '')) {
+      return;
+    }
+    setOrders(orderStorage.getOrders());
+    toast({
+      title: t('payment_methods.funds_received'),
+      description: `Order #${order.id.slice(0, 8)} status changed to processing`
+    });
+  };
+
+  const markTransferRefunded = (order: Order) => {
+    if (!orderStorage.markTransferRefunded(order.id)) {
+      return;
+    }
+    setOrders(orderStorage.getOrders());
+    toast({
+      title: t('payment_methods.transfer_refunded'),
+      description: `Order #${order.id.slice(0, 8)}`
+    });
+  };
+
+  const captureOrderPayment = async (payment: Payment) => {
+    if (!(await capturePayment(payment))) {
+      toast({ title: t('payments.capture_failed'), variant: "destructive" });
+      return;
+    }
+    setOrders(orderStorage.getOrders());
+    toast({ title: t('payments.captured'), description: formatBase(payment.amount) });
+  };
+
+  const markShipmentDelivered = (shipment: Shipment) => {
+    shipmentStorage.markShipmentDelivered(shipment.id, currentUser?.id || '');
+    setOrders(orderStorage.getOrders());
+  };
+
   const addUser = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -268,9 +415,19 @@ export const AdminDashboard = () => {
   const totalUsers = users.filter(u => u.role === 'user').length;
   const totalProducts = products.length;
 
+  // The header search filters the products tab, since admins don't browse the store
+  const handleSearch = (query: string) => {
+    setProductQuery(query.trim());
+    setActiveTab('products');
+  };
+
+  const visibleProducts = productQuery
+    ? searchProducts(buildSearchIndex(products), productQuery).map(result => result.product)
+    : products;
+
   return (
     <div className="min-h-screen bg-background">
-      <Header onSearch={() => {}} cartItemCount={0} />
+      <Header onSearch={handleSearch} cartItemCount={0} />
       <div className="container mx-auto px-4 py-8">
         <h1 className="text-3xl font-bold mb-8">{t('admin.dashboard')}</h1>
         
@@ -281,7 +438,7 @@ export const AdminDashboard = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">{t('admin.total_revenue')}</p>
-                  <p className="text-2xl font-bold">${totalRevenue.toFixed(2)}</p>
+                  <p className="text-2xl font-bold">{formatBase(totalRevenue)}</p>
                 </div>
                 <BarChart3 className="h-8 w-8 text-green-500" />
               </div>
@@ -326,14 +483,20 @@ export const AdminDashboard = () => {
         </div>
 
         {/* Tabs */}
-        <Tabs defaultValue="products" className="space-y-6">
-          <TabsList className="grid grid-cols-6 w-full max-w-3xl">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="flex flex-wrap h-auto w-full justify-start">
             <TabsTrigger value="products">{t('admin.manage_products')}</TabsTrigger>
             <TabsTrigger value="orders">{t('admin.manage_orders')}</TabsTrigger>
             <TabsTrigger value="users">{t('admin.manage_users')}</TabsTrigger>
             <TabsTrigger value="add-product">{t('admin.add_product')}</TabsTrigger>
             <TabsTrigger value="manage-users">{t('admin.add_user')}</TabsTrigger>
             <TabsTrigger value="messages">{t('admin.send_messages')}</TabsTrigger>
+            <TabsTrigger value="promotions">{t('promotions.title')}</TabsTrigger>
+            <TabsTrigger value="returns">{t('returns.title')}</TabsTrigger>
+            <TabsTrigger value="shipping">{t('shipping_rates.title')}</TabsTrigger>
+            <TabsTrigger value="payments">{t('payment_methods.title')}</TabsTrigger>
+            <TabsTrigger value="tax">{t('tax.title')}</TabsTrigger>
+            <TabsTrigger value="currency">{t('currency.title')}</TabsTrigger>
           </TabsList>
 
           {/* Products Tab */}
@@ -341,17 +504,25 @@ export const AdminDashboard = () => {
             <Card>
               <CardHeader>
                 <CardTitle>{t('admin.products_management')}</CardTitle>
+                {productQuery && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <span>{t('search.results_for')} “{productQuery}” ({visibleProducts.length})</span>
+                    <Button variant="ghost" size="sm" onClick={() => setProductQuery('')}>
+                      {t('home.clear_filters')}
+                    </Button>
+                  </div>
+                )}
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {products.map((product) => (
+                  {visibleProducts.map((product) => (
                     <div key={product.id} className="flex items-center justify-between p-4 border rounded-lg">
                       <div className="flex items-center gap-4">
                         <img src={product.imageUrl} alt={product.name} className="h-16 w-16 object-cover rounded" />
                         <div>
                           <h3 className="font-semibold">{product.name}</h3>
                           <p className="text-sm text-muted-foreground">{getCategory(product.categoryId)?.name}</p>
-                          <p className="text-lg font-bold text-primary">${product.price}</p>
+                          <p className="text-lg font-bold text-primary">{formatBase(product.price)}</p>
                           <p className="text-sm">{t('admin.stock')}: {product.inStock}</p>
                         </div>
                       </div>
@@ -359,7 +530,10 @@ export const AdminDashboard = () => {
                         <Button 
                           variant="outline" 
                           size="sm"
-                          onClick={() => setEditingProduct(product)}
+                          onClick={() => {
+                            setEditingProduct(product);
+                            setEditingSpecErrors([]);
+                          }}
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
@@ -445,6 +619,26 @@ export const AdminDashboard = () => {
                       </div>
                     </div>
                     
+                    <div className="space-y-2">
+                      <Label>{t('admin.specifications')}</Label>
+                      <ProductSpecFields
+                        categoryId={editingProduct.categoryId}
+                        specs={editingProduct.specs}
+                        errors={editingSpecErrors}
+                        idPrefix="edit"
+                        onChange={(specs) => setEditingProduct(prev => prev ? { ...prev, specs } : null)}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>{t('shipping_rates.package')}</Label>
+                      <ProductShippingFields
+                        idPrefix="edit"
+                        value={editingProduct}
+                        onChange={(size) => setEditingProduct(prev => prev ? { ...prev, ...size } : null)}
+                      />
+                    </div>
+                    
                     <div className="space-y-2">
                       <Label htmlFor="edit-image">Product Image</Label>
                       <div className="flex items-center gap-4">
@@ -459,6 +653,17 @@ export const AdminDashboard = () => {
                         />
                       </div>
                     </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="edit-images">{t('admin.additional_images')}</Label>
+                      <Textarea
+                        id="edit-images"
+                        placeholder="https://..."
+                        value={(editingProduct.images || []).join('\n')}
+                        onChange={(e) => setEditingProduct(prev => prev ? { ...prev, images: e.target.value.split('\n') } : null)}
+                      />
+                      <p className="text-xs text-muted-foreground">{t('admin.additional_images_hint')}</p>
+                    </div>
                     
                     <div className="flex gap-2">
                       <Button type="submit">Update Product</Button>
@@ -482,32 +687,71 @@ export const AdminDashboard = () => {
                 <div className="space-y-4">
                   {orders.map((order) => {
                     const user = getUser(order.userId);
+                    const shipments = shipmentStorage.getOrderShipments(order.id);
+                    const payment = paymentStorage.getOrderPayment(order.id);
+                    const estimate = getOrderEstimate(order);
                     return (
                       <div key={order.id} className="p-4 border rounded-lg">
                         <div className="flex justify-between items-start mb-4">
                           <div>
                             <h3 className="font-semibold">{t('admin.order_id')}{order.id.slice(0, 8)}</h3>
                             <p className="text-sm text-muted-foreground">
-                              {t('admin.customer')}: {user?.name} ({user?.email})
+                              {t('admin.customer')}: {user ? `${user.name} (${user.email})` : `${t('guest.guest')} (${order.guestEmail})`}
                             </p>
                             <p className="text-sm text-muted-foreground">
                               {t('admin.date')}: {new Date(order.createdAt).toLocaleDateString()}
                             </p>
+                            <p className="text-sm text-muted-foreground">
+                              {t('payment_methods.title')}: {t(`payment_methods.${getOrderPaymentMethod(order)}`)}
+                              {order.paymentReceivedAt && ` · ${t('payment_methods.received_on')} ${new Date(order.paymentReceivedAt).toLocaleDateString()}`}
+                              {order.transferRefundedAt && ` · ${t('payment_methods.refunded_on')} ${new Date(order.transferRefundedAt).toLocaleDateString()}`}
+                            </p>
+                            {isTransferRefundOwed(order) && (
+                              <div className="mt-2 space-y-2">
+                                <p className="text-sm text-destructive">
+                                  {t('payment_methods.refund_owed')}: {formatBase(order.transferRefundDue || 0)}
+                                </p>
+                                <Button size="sm" variant="outline" onClick={() => markTransferRefunded(order)}>
+                                  {t('payment_methods.mark_refunded')}
+                                </Button>
+                              </div>
+                            )}
+                            {isAwaitingFunds(order) && (
+                              <Button size="sm" variant="outline" className="mt-2" onClick={() => markPaymentReceived(order)}>
+                                {t('payment_methods.mark_received')}
+                              </Button>
+                            )}
                           </div>
                           <div className="text-right">
-                            <p className="text-lg font-bold">${order.total.toFixed(2)}</p>
-                            <Select value={order.status} onValueChange={(value) => updateOrderStatus(order.id, value as Order['status'])}>
-                              <SelectTrigger className="w-32">
+                            <p className="text-lg font-bold">{formatBase(order.total)}</p>
+                            {estimate && (
+                              <p className="text-xs text-muted-foreground">
+                                {t('currency.estimate')} ({estimate.currency}): {formatAmount(estimate.total, estimate)}
+                              </p>
+                            )}
+                            <Select
+                              value={order.status}
+                              onValueChange={(value) => updateOrderStatus(order, value as OrderStatus)}
+                              disabled={getNextStatuses(order.status).length === 0}
+                            >
+                              <SelectTrigger className="w-32 ml-auto">
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="pending">{t('orders.pending')}</SelectItem>
-                                <SelectItem value="processing">{t('orders.processing')}</SelectItem>
-                                <SelectItem value="shipped">{t('orders.shipped')}</SelectItem>
-                                <SelectItem value="delivered">{t('orders.delivered')}</SelectItem>
-                                <SelectItem value="cancelled">{t('orders.cancelled')}</SelectItem>
+                                {/* Only the current status and the moves allowed from it */}
+                                {[order.status, ...getNextStatuses(order.status)].map((status) => (
+                                  <SelectItem key={status} value={status}>{t(`orders.${status}`)}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
+                            {getNextStatuses(order.status).length > 0 && (
+                              <Input
+                                className="w-48 mt-2 ml-auto"
+                                placeholder={t('order_status.note_placeholder')}
+                                value={statusNotes[order.id] || ''}
+                                onChange={(e) => setStatusNotes(prev => ({ ...prev, [order.id]: e.target.value }))}
+                              />
+                            )}
                           </div>
                         </div>
                         
@@ -518,15 +762,53 @@ export const AdminDashboard = () => {
                             return (
                               <div key={index} className="flex justify-between text-sm">
                                 <span>{product?.name || 'Unknown Product'} × {item.quantity}</span>
-                                <span>${(item.price * item.quantity).toFixed(2)}</span>
+                                <span>{formatBase(item.price * item.quantity)}</span>
                               </div>
                             );
                           })}
                         </div>
+
+                        <PriceSummary pricing={getOrderPricing(order)} exchangeRate={getBaseRate()} className="mt-4 border-t pt-4" />
+                        <div className="mt-4">
+                          <OrderDocumentLinks order={order} />
+                        </div>
+
+                        {payment && (
+                          <div className="mt-4">
+                            <h4 className="font-medium mb-2">{t('payments.title')}:</h4>
+                            <PaymentSummary payment={payment} onCapture={captureOrderPayment} />
+                          </div>
+                        )}
                         
                         <div className="mt-4">
                           <h4 className="font-medium">{t('admin.shipping_address')}:</h4>
-                          <p className="text-sm text-muted-foreground">{order.shippingAddress}</p>
+                          <p className="text-sm text-muted-foreground">{formatAddress(order.shippingAddress, language)}</p>
+                          {order.billingAddress &&
+                            (typeof order.shippingAddress === 'string' || !isSameAddress(order.billingAddress, order.shippingAddress)) && (
+                            <>
+                              <h4 className="font-medium mt-2">{t('address.billing_address')}:</h4>
+                              <p className="text-sm text-muted-foreground">{formatAddress(order.billingAddress, language)}</p>
+                            </>
+                          )}
+                        </div>
+
+                        {shipments.length > 0 && (
+                          <div className="mt-4">
+                            <h4 className="font-medium mb-2">{t('shipments.title')}:</h4>
+                            <ShipmentList shipments={shipments} products={products} onMarkDelivered={markShipmentDelivered} />
+                          </div>
+                        )}
+                        {order.status === 'shipped' &&
+                          order.items.some(item => shipmentStorage.getUnshippedQuantity(order, item.productId) > 0) && (
+                          <Button size="sm" variant="outline" className="mt-2" onClick={() => setShippingOrder(order)}>
+                            <Plus className="mr-2 h-4 w-4" />
+                            {t('shipments.add')}
+                          </Button>
+                        )}
+
+                        <div className="mt-4">
+                          <h4 className="font-medium mb-2">{t('order_status.history')}:</h4>
+                          <OrderTimeline order={order} showActor />
                         </div>
                       </div>
                     );
@@ -637,7 +919,10 @@ export const AdminDashboard = () => {
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <Label htmlFor="category">{t('admin.category')}</Label>
-                      <Select value={newProduct.categoryId} onValueChange={(value) => setNewProduct(prev => ({ ...prev, categoryId: value }))}>
+                      <Select value={newProduct.categoryId} onValueChange={(value) => {
+                        setNewProduct(prev => ({ ...prev, categoryId: value, specs: {} }));
+                        setNewProductSpecErrors([]);
+                      }}>
                         <SelectTrigger>
                           <SelectValue placeholder={t('admin.select_category')} />
                         </SelectTrigger>
@@ -662,6 +947,28 @@ export const AdminDashboard = () => {
                     </div>
                   </div>
                   
+                  {newProduct.categoryId && (
+                    <div className="space-y-2">
+                      <Label>{t('admin.specifications')}</Label>
+                      <ProductSpecFields
+                        categoryId={newProduct.categoryId}
+                        specs={newProduct.specs}
+                        errors={newProductSpecErrors}
+                        idPrefix="new"
+                        onChange={(specs) => setNewProduct(prev => ({ ...prev, specs }))}
+                      />
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label>{t('shipping_rates.package')}</Label>
+                    <ProductShippingFields
+                      idPrefix="new"
+                      value={newProduct}
+                      onChange={(size) => setNewProduct(prev => ({ ...prev, ...size }))}
+                    />
+                  </div>
+                  
                   <div className="space-y-2">
                     <Label htmlFor="image">{t('admin.product_image')}</Label>
                     <div className="flex items-center gap-4">
@@ -676,6 +983,17 @@ export const AdminDashboard = () => {
                       />
                     </div>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="images">{t('admin.additional_images')}</Label>
+                    <Textarea
+                      id="images"
+                      placeholder="https://..."
+                      value={newProduct.images.join('\n')}
+                      onChange={(e) => setNewProduct(prev => ({ ...prev, images: e.target.value.split('\n') }))}
+                    />
+                    <p className="text-xs text-muted-foreground">{t('admin.additional_images_hint')}</p>
+                  </div>
                   
                   <Button type="submit" className="w-full">
                     <Plus className="mr-2 h-4 w-4" />
@@ -823,7 +1141,57 @@ export const AdminDashboard = () => {
               </Card>
             </div>
           </TabsContent>
+
+          {/* Promotions Tab */}
+          <TabsContent value="promotions">
+            <PromotionManager products={products} categories={categories} orders={orders} />
+          </TabsContent>
+
+          {/* Returns Tab */}
+          <TabsContent value="returns">
+            <ReturnManager
+              products={products}
+              orders={orders}
+              users={users}
+              currentUserId={currentUser?.id || ''}
+              onResolved={() => setProducts(productStorage.getProducts())}
+            />
+          </TabsContent>
+
+          {/* Shipping Tab */}
+          <TabsContent value="shipping">
+            <ShippingZoneManager />
+          </TabsContent>
+
+          {/* Payments Tab */}
+          <TabsContent value="payments">
+            <PaymentSettingsManager users={users} currentUserId={currentUser?.id || ''} />
+          </TabsContent>
+
+          {/* Tax Tab */}
+          <TabsContent value="tax" className="space-y-6">
+            <TaxRuleManager />
+            <TaxReport orders={orders} />
+          </TabsContent>
+
+          {/* Currency Tab */}
+          <TabsContent value="currency">
+            <ExchangeRateManager />
+          </TabsContent>
         </Tabs>
+
+        {shippingOrder && (
+          <ShipmentDialog
+            order={shippingOrder}
+            products={products}
+            createdBy={currentUser?.id || ''}
+            onClose={() => setShippingOrder(null)}
+            onCreated={() => {
+              setShippingOrder(null);
+              setOrders(orderStorage.getOrders());
+            }}
+          />
+        )}
       </div>
     </div>
   );
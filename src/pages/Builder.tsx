@@ -0,0 +1,377 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { CompatibilityWarnings } from '@/components/CompatibilityWarnings';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { FolderOpen, Save, Share2, ShoppingCart, Trash2, Wrench } from 'lucide-react';
+import { checkCompatibility, isCompatibleWith, type BuildPart } from '@/lib/compatibility';
+import {
+  productStorage,
+  categoryStorage,
+  cartStorage,
+  userStorage,
+  buildStorage,
+  type Product,
+  type Category,
+  type BuildItem,
+  type SavedBuild
+} from '@/lib/storage';
+
+// Place build items into their category slots
+const toSelection = (items: BuildItem[], products: Product[]): Record<string, BuildItem> => {
+  const selection: Record<string, BuildItem> = {};
+  items.forEach(item => {
+    const product = products.find(p => p.id === item.productId);
+    if (product) {
+      selection[product.categoryId] = item;
+    }
+  });
+  return selection;
+};
+
+export function Builder() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const currentUser = userStorage.getCurrentUser();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  // Selected part per category slot, restored from a shared link if present
+  const [selection, setSelection] = useState<Record<string, BuildItem>>(() =>
+    toSelection(buildStorage.decodeBuild(searchParams).items, productStorage.getProducts())
+  );
+  const [buildName, setBuildName] = useState(() => searchParams.get('name') || '');
+  const [savedBuilds, setSavedBuilds] = useState<SavedBuild[]>(() =>
+    currentUser && currentUser.role !== 'admin' ? buildStorage.getUserBuilds(currentUser.id) : []
+  );
+  const [cartItemCount, setCartItemCount] = useState(0);
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+
+  useEffect(() => {
+    setProducts(productStorage.getProducts());
+    setCategories(categoryStorage.getCategories());
+    updateCartCount();
+  }, []);
+
+  // Keep the address bar in sync so the current build can always be shared
+  const applyBuild = (nextSelection: Record<string, BuildItem>, nextName = buildName) => {
+    setSelection(nextSelection);
+    setBuildName(nextName);
+    const items = Object.values(nextSelection);
+    setSearchParams(items.length > 0 ? buildStorage.encodeBuild(items, nextName.trim()) : {}, { replace: true });
+  };
+
+  const updateCartCount = () => {
+    const cart = cartStorage.getCart();
+    setCartItemCount(cart.reduce((total, item) => total + item.quantity, 0));
+  };
+
+  const getProduct = (productId: string) => {
+    return products.find(p => p.id === productId);
+  };
+
+  const getSelectedParts = (excludeCategoryId?: string): BuildPart[] => {
+    return Object.entries(selection)
+      .filter(([categoryId]) => categoryId !== excludeCategoryId)
+      .map(([, item]) => ({ product: getProduct(item.productId), quantity: item.quantity }))
+      .filter((part): part is BuildPart => !!part.product);
+  };
+
+  // Parts for a slot that work with everything picked in the other slots
+  const getSlotOptions = (categoryId: string) => {
+    const otherParts = getSelectedParts(categoryId);
+    return products.filter(product =>
+      product.categoryId === categoryId &&
+      product.inStock > 0 &&
+      isCompatibleWith(product, otherParts)
+    );
+  };
+
+  const selectPart = (categoryId: string, productId: string) => {
+    applyBuild({ ...selection, [categoryId]: { productId, quantity: 1 } });
+  };
+
+  const updateSlotQuantity = (categoryId: string, quantity: number) => {
+    applyBuild({
+      ...selection,
+      [categoryId]: { ...selection[categoryId], quantity: Math.max(1, quantity) }
+    });
+  };
+
+  const clearSlot = (categoryId: string) => {
+    const next = { ...selection };
+    delete next[categoryId];
+    applyBuild(next);
+  };
+
+  const selectedParts = getSelectedParts();
+  const total = selectedParts.reduce((sum, { product, quantity }) => sum + product.price * quantity, 0);
+  const issues = checkCompatibility(selectedParts);
+
+  const handleAddBuildToCart = () => {
+    const shortParts = selectedParts.filter(({ product, quantity }) => {
+      return cartStorage.addToCart(product.id, product.price, quantity) < quantity;
+    });
+    updateCartCount();
+
+    if (shortParts.length > 0) {
+      toast({
+        title: t('stock.limited_title'),
+        description: `${t('stock.limited')} ${shortParts.map(({ product }) => product.name).join(', ')}`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: t('common.success'),
+        description: t('builder.added_to_cart'),
+      });
+    }
+    navigate('/cart');
+  };
+
+  const getShareUrl = (items: BuildItem[], name?: string) => {
+    return `${window.location.origin}/builder?${buildStorage.encodeBuild(items, name)}`;
+  };
+
+  const copyShareLink = async (items: BuildItem[], name?: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(items, name));
+      toast({
+        title: t('common.success'),
+        description: t('builder.link_copied'),
+      });
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: getShareUrl(items, name),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveBuild = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !buildName.trim()) return;
+
+    buildStorage.saveBuild(currentUser.id, buildName.trim(), Object.values(selection));
+    setSavedBuilds(buildStorage.getUserBuilds(currentUser.id));
+
+    toast({
+      title: t('common.success'),
+      description: t('builder.build_saved'),
+    });
+  };
+
+  const loadBuild = (build: SavedBuild) => {
+    applyBuild(toSelection(build.items, products), build.name);
+  };
+
+  const deleteBuild = (buildId: string) => {
+    if (!currentUser) return;
+    buildStorage.deleteBuild(buildId);
+    setSavedBuilds(buildStorage.getUserBuilds(currentUser.id));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header cartItemCount={cartItemCount} />
+
+      <main className="container mx-auto px-4 py-4 sm:py-8">
+        <div className="flex items-center gap-2 mb-2">
+          <Wrench className="h-6 w-6 text-primary" />
+          <h1 className="text-2xl sm:text-3xl font-bold">{t('builder.title')}</h1>
+        </div>
+        <p className="text-muted-foreground mb-6 sm:mb-8">{t('builder.subtitle')}</p>
+
+        <div className="grid lg:grid-cols-3 gap-6 lg:gap-8">
+          <div className="lg:col-span-2 space-y-4">
+            {categories.map((category) => {
+              const slot = selection[category.id];
+              const selected = slot ? getProduct(slot.productId) : undefined;
+              const options = getSlotOptions(category.id);
+
+              return (
+                <Card key={category.id}>
+                  <CardContent className="p-4 sm:p-6">
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                      <div className="sm:w-40 flex-shrink-0">
+                        <h3 className="font-semibold">{t(`categories.${category.name}`) || category.name}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          {options.length} {t('builder.compatible_options')}
+                        </p>
+                      </div>
+
+                      {selected && (
+                        <img
+                          src={selected.imageUrl}
+                          alt={selected.name}
+                          className="h-16 w-16 object-cover rounded-lg flex-shrink-0"
+                        />
+                      )}
+
+                      <div className="flex-1 min-w-0">
+                        <Select
+                          value={slot?.productId || ''}
+                          onValueChange={(value) => selectPart(category.id, value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder={t('builder.choose_part')} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {options.map((product) => (
+                              <SelectItem key={product.id} value={product.id}>
+                                {product.name} - {formatPrice(product.price)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {options.length === 0 && (
+                          <p className="text-xs text-destructive mt-2">{t('builder.no_compatible_parts')}</p>
+                        )}
+                      </div>
+
+                      {selected && (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            min="1"
+                            value={slot.quantity}
+                            onChange={(e) => updateSlotQuantity(category.id, parseInt(e.target.value) || 1)}
+                            className="w-16 text-center"
+                            aria-label={t('cart.quantity')}
+                          />
+                          <span className="font-bold text-primary">{formatPrice(selected.price)}</span>
+                          <Button variant="ghost" size="icon" onClick={() => clearSlot(category.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          <div>
+            <Card className="lg:sticky lg:top-24">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  {t('builder.summary')}
+                  <Badge variant="outline">
+                    {selectedParts.length}/{categories.length}
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {selectedParts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t('builder.empty')}</p>
+                ) : (
+                  <div className="space-y-2">
+                    {selectedParts.map(({ product, quantity }) => (
+                      <div key={product.id} className="flex justify-between text-sm gap-2">
+                        <span className="truncate">{product.name} × {quantity}</span>
+                        <span>{formatPrice(product.price * quantity)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <CompatibilityWarnings issues={issues} />
+
+                <div className="border-t pt-4">
+                  <div className="flex justify-between font-bold text-lg">
+                    <span>{t('checkout.total')}</span>
+                    <span>{formatPrice(total)}</span>
+                  </div>
+                </div>
+
+                <Button
+                  className="w-full"
+                  onClick={handleAddBuildToCart}
+                  disabled={selectedParts.length === 0}
+                >
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  {t('builder.add_build_to_cart')}
+                </Button>
+
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => copyShareLink(Object.values(selection), buildName.trim())}
+                  disabled={selectedParts.length === 0}
+                >
+                  <Share2 className="h-4 w-4 mr-2" />
+                  {t('builder.share_build')}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>{t('builder.saved_builds')}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {currentUser && currentUser.role !== 'admin' ? (
+                  <>
+                    <form onSubmit={handleSaveBuild} className="flex gap-2">
+                      <Input
+                        value={buildName}
+                        onChange={(e) => applyBuild(selection, e.target.value)}
+                        placeholder={t('builder.build_name_placeholder')}
+                        required
+                      />
+                      <Button type="submit" disabled={selectedParts.length === 0}>
+                        <Save className="h-4 w-4" />
+                      </Button>
+                    </form>
+
+                    {savedBuilds.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">{t('builder.no_saved_builds')}</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {savedBuilds.map((build) => (
+                          <div key={build.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                            <div className="min-w-0">
+                              <p className="font-medium truncate">{build.name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {build.items.length} {t('home.items')} · {new Date(build.createdAt).toLocaleDateString()}
+                              </p>
+                            </div>
+                            <div className="flex flex-shrink-0">
+                              <Button variant="ghost" size="icon" onClick={() => loadBuild(build)}>
+                                <FolderOpen className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => copyShareLink(build.items, build.name)}>
+                                <Share2 className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => deleteBuild(build.id)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    <Link to="/login" className="text-primary hover:underline">{t('header.login')}</Link>{' '}
+                    {t('builder.login_to_save')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -4,10 +4,16 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
-import { cartStorage, productStorage, userStorage } from '@/lib/storage';
+import { cartStorage, productStorage, orderStorage, promotionStorage, userStorage } from '@/lib/storage';
 import { Header } from '@/components/Header';
+import { CompatibilityWarnings } from '@/components/CompatibilityWarnings';
+import { PriceSummary } from '@/components/PriceSummary';
+import { checkCartCompatibility } from '@/lib/compatibility';
+import { calculatePricing } from '@/lib/pricing';
+import { getPromotionDiscounts } from '@/lib/promotions';
 import { Minus, Plus, Trash2, ShoppingBag } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import type { CartItem, Product } from '@/lib/storage';
 
 export const Cart = () => {
@@ -15,18 +21,21 @@ export const Cart = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const { toast } = useToast();
   const navigate = useNavigate();
-  const currentUser = userStorage.getCurrentUser();
   const { t } = useTranslation();
+  const { formatPrice } = useCurrency();
 
   useEffect(() => {
-    if (!currentUser) {
-      navigate('/login');
-      return;
+    // Stock may have sold out since the items were added
+    if (cartStorage.trimToStock()) {
+      toast({
+        title: t('stock.limited_title'),
+        description: t('stock.cart_adjusted'),
+        variant: "destructive"
+      });
     }
-    
     setCartItems(cartStorage.getCart());
     setProducts(productStorage.getProducts());
-  }, [currentUser, navigate]);
+  }, [toast, t]);
 
   const getProduct = (productId: string) => {
     return products.find(p => p.id === productId);
@@ -38,7 +47,13 @@ export const Cart = () => {
       return;
     }
     
-    cartStorage.updateQuantity(productId, newQuantity);
+    if (cartStorage.updateQuantity(productId, newQuantity) < newQuantity) {
+      toast({
+        title: t('stock.limited_title'),
+        description: t('stock.max_reached'),
+        variant: "destructive"
+      });
+    }
     setCartItems(cartStorage.getCart());
   };
 
@@ -51,22 +66,26 @@ export const Cart = () => {
     });
   };
 
-  const calculateTotal = () => {
-    return cartItems.reduce((total, item) => total + (item.price * item.quantity), 0);
-  };
-
   const handleCheckout = () => {
     navigate('/checkout');
   };
 
-  if (!currentUser) {
-    return null;
-  }
+  const compatibilityIssues = checkCartCompatibility(cartItems, products);
+
+  // Codes are entered at checkout; bundle deals and other automatic
+  // promotions already show here
+  const currentUser = userStorage.getCurrentUser();
+  const discounts = getPromotionDiscounts(promotionStorage.getPromotions(), {
+    items: cartItems,
+    products,
+    orders: orderStorage.getOrders(),
+    customer: { userId: currentUser?.id, email: currentUser?.email }
+  });
 
   if (cartItems.length === 0) {
     return (
       <div className="min-h-screen bg-background">
-      <Header onSearch={() => {}} cartItemCount={cartItems.length} />
+      <Header cartItemCount={cartItems.length} />
       <div className="container mx-auto px-4 py-8">
         <div className="text-center">
           <ShoppingBag className="mx-auto h-16 w-16 text-muted-foreground mb-4" />
@@ -83,9 +102,11 @@ export const Cart = () => {
 
   return (
     <div className="min-h-screen bg-background">
-      <Header onSearch={() => {}} cartItemCount={cartItems.length} />
+      <Header cartItemCount={cartItems.length} />
       <div className="container mx-auto px-4 py-4 sm:py-8">
         <h1 className="text-2xl sm:text-3xl font-bold mb-6 sm:mb-8">{t('cart.title')}</h1>
+
+        <CompatibilityWarnings issues={compatibilityIssues} className="mb-6" />
         
         <div className="grid lg:grid-cols-3 gap-6 lg:gap-8">
           <div className="lg:col-span-2 space-y-4">
@@ -105,7 +126,7 @@ export const Cart = () => {
                       <div className="flex-1 text-center sm:text-left">
                         <h3 className="font-semibold text-lg sm:text-base">{product.name}</h3>
                         <p className="text-sm text-muted-foreground mb-2 sm:mb-1">{product.description}</p>
-                        <p className="text-xl sm:text-lg font-bold text-primary">${product.price}</p>
+                        <p className="text-xl sm:text-lg font-bold text-primary">{formatPrice(product.price)}</p>
                       </div>
                       <div className="flex flex-col sm:flex-row items-center gap-3 sm:gap-2">
                         <div className="flex items-center gap-2">
@@ -123,11 +144,13 @@ export const Cart = () => {
                             onChange={(e) => updateQuantity(item.productId, parseInt(e.target.value) || 1)}
                             className="w-14 sm:w-16 text-center h-8 sm:h-10"
                             min="1"
+                            max={product.inStock}
                           />
                           <Button
                             variant="outline"
                             size="icon"
                             onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                            disabled={item.quantity >= product.inStock}
                             className="h-8 w-8 sm:h-10 sm:w-10"
                           >
                             <Plus className="h-3 w-3 sm:h-4 sm:w-4" />
@@ -163,18 +186,13 @@ export const Cart = () => {
                     return (
                       <div key={item.productId} className="flex justify-between text-sm">
                         <span>{product.name} × {item.quantity}</span>
-                        <span>${(item.price * item.quantity).toFixed(2)}</span>
+                        <span>{formatPrice(item.price * item.quantity)}</span>
                       </div>
                     );
                   })}
                 </div>
                 
-                <div className="border-t pt-4">
-                  <div className="flex justify-between font-bold text-lg">
-                    <span>{t('checkout.total')}</span>
-                    <span>${calculateTotal().toFixed(2)}</span>
-                  </div>
-                </div>
+                <PriceSummary pricing={calculatePricing(cartItems, undefined, discounts)} destinationPending className="border-t pt-4" />
                 
                 <Button className="w-full" onClick={handleCheckout}>
                   {t('cart.proceed_to_checkout')}
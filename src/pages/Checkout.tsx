@@ -1,54 +1,102 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
-import { cartStorage, orderStorage, userStorage, productStorage } from '@/lib/storage';
+import {
+  cartStorage,
+  orderStorage,
+  userStorage,
+  productStorage,
+  promotionStorage,
+  addressStorage,
+  shippingZoneStorage,
+  paymentSettingsStorage,
+  storeCreditStorage,
+  taxRuleStorage
+} from '@/lib/storage';
 import { Header } from '@/components/Header';
-import { CreditCard, Truck } from 'lucide-react';
+import { CompatibilityWarnings } from '@/components/CompatibilityWarnings';
+import { AddressFields } from '@/components/AddressFields';
+import { SavedAddressSelect } from '@/components/SavedAddressSelect';
+import { CardPaymentFields } from '@/components/CardPaymentFields';
+import { PaymentChallengeDialog } from '@/components/PaymentChallengeDialog';
+import { BankTransferDetails } from '@/components/BankTransferDetails';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { PriceSummary } from '@/components/PriceSummary';
+import { checkCartCompatibility } from '@/lib/compatibility';
+import { calculatePricing, getMerchandiseValue } from '@/lib/pricing';
+import { BASE_CURRENCY, getBaseRate } from '@/lib/currency';
+import { estimateDelivery, getShippingQuotes } from '@/lib/shippingRates';
+import { emptyAddress, isSameAddress, normalizeAddress, validateAddress, type AddressError } from '@/lib/address';
+import { checkPromotion, getPromotionDiscounts, type PromotionContext } from '@/lib/promotions';
+import { validateCard, type CardDetails, type CardError } from '@/lib/cards';
+import { authorizeCardPayment, linkPaymentToOrder, voidPayment } from '@/lib/payments';
+import { PAYMENT_METHODS, checkPaymentMethod, getPaymentSurcharge } from '@/lib/paymentMethods';
+import { findTaxRules } from '@/lib/tax';
+import { CreditCard, Mail, Tag, Truck, X } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import type { CartItem, Product } from '@/lib/storage';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import type { Address, CartItem, OrderError, Payment, PaymentMethod, Product, Promotion, SavedAddress } from '@/lib/storage';
 
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 export const Checkout = () => {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [shippingOption, setShippingOption] = useState('standard');
-  const [shippingAddress, setShippingAddress] = useState({
-    street: '',
-    city: '',
-    state: '',
-    zipCode: '',
-    country: ''
+  const [guestEmail, setGuestEmail] = useState('');
+  const [promoCode, setPromoCode] = useState('');
+  const [codePromotion, setCodePromotion] = useState<Promotion | null>(null);
+  const [showCompatibilityConfirm, setShowCompatibilityConfirm] = useState(false);
+  // Signed-in customers start from the defaults in their address book
+  const [savedAddresses] = useState<SavedAddress[]>(() => {
+    const user = userStorage.getCurrentUser();
+    return user ? addressStorage.getAddresses(user.id) : [];
   });
-  const [paymentInfo, setPaymentInfo] = useState({
-    cardNumber: '',
-    expiryDate: '',
-    cvv: '',
-    cardName: ''
+  const [shippingAddress, setShippingAddress] = useState<Address>(() => {
+    const saved = savedAddresses.find(a => a.isDefaultShipping);
+    return saved ? normalizeAddress(saved) : emptyAddress();
   });
+  const [billingAddress, setBillingAddress] = useState<Address>(() => {
+    const saved = savedAddresses.find(a => a.isDefaultBilling);
+    return saved ? normalizeAddress(saved) : emptyAddress();
+  });
+  const [billingSameAsShipping, setBillingSameAsShipping] = useState(() => {
+    const billing = savedAddresses.find(a => a.isDefaultBilling);
+    return !billing || billing.isDefaultShipping;
+  });
+  const [saveAddress, setSaveAddress] = useState(false);
+  const [shippingErrors, setShippingErrors] = useState<AddressError[]>([]);
+  const [billingErrors, setBillingErrors] = useState<AddressError[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('card');
+  // Card details stay in component state; only the provider sees them
+  const [card, setCard] = useState<CardDetails>({ number: '', expiry: '', cvv: '', name: '' });
+  const [cardErrors, setCardErrors] = useState<CardError[]>([]);
+  const [processingPayment, setProcessingPayment] = useState(false);
+  const [challengePayment, setChallengePayment] = useState<Payment | null>(null);
   
   const { toast } = useToast();
   const navigate = useNavigate();
   const currentUser = userStorage.getCurrentUser();
-  const { t } = useTranslation();
-
-  const shippingOptions = [
-    { id: 'standard', name: t('checkout.standard'), cost: 9.99 },
-    { id: 'express', name: t('checkout.express'), cost: 19.99 },
-    { id: 'overnight', name: t('checkout.overnight'), cost: 39.99 }
-  ];
+  const { t, i18n } = useTranslation();
+  const { currency, formatPrice } = useCurrency();
 
   useEffect(() => {
-    if (!currentUser) {
-      navigate('/login');
-      return;
-    }
-    
     const cart = cartStorage.getCart();
     if (cart.length === 0) {
       navigate('/cart');
@@ -63,78 +111,315 @@ export const Checkout = () => {
     return products.find(p => p.id === productId);
   };
 
-  const calculateSubtotal = () => {
-    return cartItems.reduce((total, item) => total + (item.price * item.quantity), 0);
+  const promotionContext: PromotionContext = {
+    items: cartItems,
+    products,
+    orders: orderStorage.getOrders(),
+    customer: { userId: currentUser?.id, email: currentUser?.email || guestEmail }
   };
+  const discounts = getPromotionDiscounts(promotionStorage.getPromotions(), promotionContext, codePromotion);
+  // Rates depend on the destination, so they appear once a country is picked;
+  // a method the new country doesn't offer falls back to the cheapest one
+  const shippingQuotes = getShippingQuotes(
+    shippingZoneStorage.getZones(),
+    cartItems,
+    products,
+    shippingAddress.country,
+    getMerchandiseValue(cartItems, discounts)
+  );
+  const shippingQuote = shippingQuotes.find(quote => quote.id === shippingOption) || shippingQuotes[0];
+  const paymentSettings = paymentSettingsStorage.getSettings();
+  const creditBalance = currentUser ? storeCreditStorage.getBalance(currentUser.id) : 0;
+  const taxRules = findTaxRules(taxRuleStorage.getRules(), shippingAddress);
+  const pricing = calculatePricing(
+    cartItems,
+    shippingQuote,
+    discounts,
+    getPaymentSurcharge(paymentMethod, paymentSettings),
+    taxRules
+  );
+  const getPaymentMethodError = (method: PaymentMethod) => checkPaymentMethod(method, {
+    settings: paymentSettings,
+    total: pricing.total - (pricing.paymentSurcharge || 0),
+    signedIn: !!currentUser,
+    creditBalance
+  });
+  // Switched-off methods and store credit for guests aren't offered at all
+  const paymentMethods = PAYMENT_METHODS.filter(method => {
+    const error = getPaymentMethodError(method);
+    return error !== 'disabled' && error !== 'sign_in_required';
+  });
 
-  const getShippingCost = () => {
-    const option = shippingOptions.find(opt => opt.id === shippingOption);
-    return option?.cost || 0;
-  };
+  const formatDeliveryDate = (date: Date) => date.toLocaleDateString(i18n.language, { month: 'short', day: 'numeric' });
 
-  const calculateTotal = () => {
-    return calculateSubtotal() + getShippingCost();
+  const handleApplyCode = () => {
+    const promotion = promotionStorage.getPromotionByCode(promoCode);
+    const error = promotion ? checkPromotion(promotion, promotionContext) : 'invalid';
+    if (error) {
+      toast({
+        title: t('promotions.code_rejected'),
+        description: t(`promotions.error_${error}`),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCodePromotion(promotion);
+    setPromoCode('');
+    toast({
+      title: t('promotions.code_applied'),
+      description: promotion.name
+    });
   };
 
+  const compatibilityIssues = checkCartCompatibility(cartItems, products);
+  const hasCompatibilityErrors = compatibilityIssues.some(issue => issue.severity === 'error');
+
   const handlePlaceOrder = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!currentUser) return;
 
-    // Validate shipping address
-    if (!shippingAddress.street || !shippingAddress.city || !shippingAddress.state || !shippingAddress.zipCode) {
+    // Incompatible parts block the order; warnings only need confirmation
+    if (hasCompatibilityErrors) {
+      toast({
+        title: t('compatibility.errors_title'),
+        description: t('compatibility.fix_before_checkout'),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Guests need an email to look up and later claim the order
+    if (!currentUser && !EMAIL_PATTERN.test(guestEmail.trim())) {
+      toast({
+        title: t('guest.invalid_email_title'),
+        description: t('guest.invalid_email'),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // The code may have reached a usage limit for this email since it was applied
+    const promotionError = codePromotion && checkPromotion(codePromotion, promotionContext);
+    if (promotionError) {
+      setCodePromotion(null);
+      toast({
+        title: t('promotions.code_rejected'),
+        description: t(`promotions.error_${promotionError}`),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Validate addresses, including the postal code format for the country
+    const newShippingErrors = validateAddress(shippingAddress);
+    const newBillingErrors = billingSameAsShipping ? [] : validateAddress(billingAddress);
+    setShippingErrors(newShippingErrors);
+    setBillingErrors(newBillingErrors);
+    if (newShippingErrors.length > 0 || newBillingErrors.length > 0) {
       toast({
         title: t('checkout.missing_shipping_info'),
-        description: t('checkout.fill_shipping_fields'),
+        description: t('address.fix_errors'),
         variant: "destructive"
       });
       return;
     }
 
-    // Validate payment info
-    if (!paymentInfo.cardNumber || !paymentInfo.expiryDate || !paymentInfo.cvv || !paymentInfo.cardName) {
+    if (!shippingQuote) {
+      toast({
+        title: t('shipping_rates.unavailable_title'),
+        description: t('shipping_rates.unavailable'),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // The total may have moved past what the method can pay
+    const paymentMethodError = getPaymentMethodError(paymentMethod);
+    if (paymentMethodError) {
+      toast({
+        title: t('payment_methods.unavailable_title'),
+        description: t(`payment_methods.error_${paymentMethodError}`),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Validate the card before it goes to the payment provider
+    const newCardErrors = paymentMethod === 'card' ? validateCard(card) : [];
+    setCardErrors(newCardErrors);
+    if (newCardErrors.length > 0) {
       toast({
         title: t('checkout.missing_payment_info'),
-        description: t('checkout.fill_payment_fields'),
+        description: t('payments.fix_card'),
         variant: "destructive"
       });
       return;
     }
 
-    const addressString = `${shippingAddress.street}, ${shippingAddress.city}, ${shippingAddress.state} ${shippingAddress.zipCode}, ${shippingAddress.country}`;
-    const selectedShipping = shippingOptions.find(opt => opt.id === shippingOption);
-    
-    const order = orderStorage.createOrder(
-      currentUser.id,
+    if (compatibilityIssues.length > 0) {
+      setShowCompatibilityConfirm(true);
+      return;
+    }
+
+    placeOrder();
+  };
+
+  // The card is authorized for the total first; the order is only created
+  // once the payment goes through
+  const placeOrder = async () => {
+    if (paymentMethod !== 'card') {
+      completeOrder(null);
+      return;
+    }
+
+    setProcessingPayment(true);
+    const payment = await authorizeCardPayment(card, pricing.total);
+    setProcessingPayment(false);
+    handlePaymentResult(payment);
+  };
+
+  const handlePaymentResult = (payment: Payment) => {
+    if (payment.status === 'requires_action') {
+      setChallengePayment(payment);
+      return;
+    }
+
+    setChallengePayment(null);
+    if (payment.status !== 'authorized') {
+      toast({
+        title: t('payments.declined_title'),
+        description: t(`payments.decline_${payment.declineCode || 'card_declined'}`),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    completeOrder(payment);
+  };
+
+  // Tells the customer why the order wasn't placed and what to do next
+  const showOrderError = (error: OrderError, released: boolean) => {
+    const releasedNote = released ? ` ${t('checkout.authorization_released')}` : '';
+
+    // Stock ran out since the cart was loaded
+    if (error === 'out_of_stock') {
+      const shortages = orderStorage.getStockShortages(cartItems);
+      cartStorage.trimToStock();
+      toast({
+        title: t('stock.limited_title'),
+        description: `${t('stock.order_failed')} ${shortages.map(s => getProduct(s.productId)?.name).filter(Boolean).join(', ')}${releasedNote}`,
+        variant: "destructive"
+      });
+      navigate('/cart');
+      return;
+    }
+    if (error === 'empty_cart') {
+      navigate('/cart');
+      return;
+    }
+
+    if (error === 'promotion') {
+      setCodePromotion(null);
+    }
+    const messages: Partial<Record<OrderError, [string, string]>> = {
+      promotion: ['promotions.code_rejected', 'checkout.order_error_promotion'],
+      shipping_unavailable: ['shipping_rates.unavailable_title', 'shipping_rates.unavailable'],
+      total_changed: ['checkout.order_failed_title', 'checkout.order_error_total_changed']
+    };
+    const [title, description] = messages[error] || ['payment_methods.unavailable_title', `payment_methods.error_${error}`];
+    toast({ title: t(title), description: `${t(description)}${releasedNote}`, variant: "destructive" });
+  };
+
+  const completeOrder = (payment: Payment | null) => {
+    const result = orderStorage.createOrder(
+      currentUser?.id || '',
       cartItems,
-      addressString,
-      selectedShipping?.name || t('checkout.standard')
+      shippingAddress,
+      shippingQuote.id,
+      codePromotion?.code,
+      currentUser ? undefined : guestEmail,
+      billingSameAsShipping ? shippingAddress : billingAddress,
+      paymentMethod,
+      currency,
+      pricing.total
     );
 
+    // Nothing was ordered, so whatever the reason the hold on the card goes
+    if (typeof result === 'string') {
+      if (payment) {
+        voidPayment(payment);
+      }
+      showOrderError(result, !!payment);
+      return;
+    }
+    const order = result;
+
     // Clear cart after successful order
+    if (payment) {
+      linkPaymentToOrder(payment, order.id);
+    }
     cartStorage.clearCart();
+    if (currentUser && saveAddress) {
+      addressStorage.addAddress(currentUser.id, shippingAddress);
+    }
 
     toast({
       title: t('checkout.order_placed'),
-      description: `${t('orders.order_id')}#${order.id.slice(0, 8)} ${t('checkout.order_confirmation')}`
+      description: `${t('orders.order_id')}#${order.id.slice(0, 8)} ${t(paymentMethod === 'bank_transfer' ? 'payment_methods.transfer_instructions' : 'checkout.order_confirmation')}`
     });
 
-    navigate('/orders');
+    // Guests have no order history, so show them the order they just placed
+    if (currentUser) {
+      navigate('/orders');
+    } else {
+      navigate(`/order-lookup?order=${order.id.slice(0, 8)}&email=${encodeURIComponent(order.guestEmail || '')}`);
+    }
   };
 
-  if (!currentUser || cartItems.length === 0) {
+  if (cartItems.length === 0) {
     return null;
   }
 
   return (
     <div className="min-h-screen bg-background">
-      <Header onSearch={() => {}} cartItemCount={cartItems.length} />
+      <Header cartItemCount={cartItems.length} />
       <div className="container mx-auto px-4 py-4 sm:py-8">
         <h1 className="text-2xl sm:text-3xl font-bold mb-6 sm:mb-8">{t('checkout.title')}</h1>
         
         <form onSubmit={handlePlaceOrder}>
           <div className="grid lg:grid-cols-2 gap-6 lg:gap-8">
             <div className="space-y-6">
+              {/* Guest Contact */}
+              {!currentUser && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Mail className="h-5 w-5" />
+                      {t('guest.contact')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="guestEmail">{t('auth.email')}</Label>
+                      <Input
+                        id="guestEmail"
+                        type="email"
+                        value={guestEmail}
+                        onChange={(e) => setGuestEmail(e.target.value)}
+                        required
+                      />
+                      <p className="text-sm text-muted-foreground">{t('guest.email_hint')}</p>
+                    </div>
+                    <p className="text-sm">
+                      {t('guest.have_account')}{' '}
+                      <Link to="/login" className="text-primary hover:underline">
+                        {t('auth.signin_link')}
+                      </Link>
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Shipping Address */}
               <Card>
                 <CardHeader>
@@ -144,58 +429,56 @@ export const Checkout = () => {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="street">{t('checkout.street_address')}</Label>
-                    <Input
-                      id="street"
-                      value={shippingAddress.street}
-                      onChange={(e) => setShippingAddress(prev => ({ ...prev, street: e.target.value }))}
-                      required
+                  {savedAddresses.length > 0 && (
+                    <SavedAddressSelect
+                      addresses={savedAddresses}
+                      onSelect={(address) => setShippingAddress(normalizeAddress(address))}
                     />
-                  </div>
-                  
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="city">{t('checkout.city')}</Label>
-                      <Input
-                        id="city"
-                        value={shippingAddress.city}
-                        onChange={(e) => setShippingAddress(prev => ({ ...prev, city: e.target.value }))}
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="state">{t('checkout.state')}</Label>
-                      <Input
-                        id="state"
-                        value={shippingAddress.state}
-                        onChange={(e) => setShippingAddress(prev => ({ ...prev, state: e.target.value }))}
-                        required
-                      />
-                    </div>
-                  </div>
-                  
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="zipCode">{t('checkout.zip_code')}</Label>
-                      <Input
-                        id="zipCode"
-                        value={shippingAddress.zipCode}
-                        onChange={(e) => setShippingAddress(prev => ({ ...prev, zipCode: e.target.value }))}
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="country">{t('checkout.country')}</Label>
-                      <Input
-                        id="country"
-                        value={shippingAddress.country}
-                        onChange={(e) => setShippingAddress(prev => ({ ...prev, country: e.target.value }))}
-                        placeholder={t('checkout.country_placeholder')}
-                        required
+                  )}
+                  <AddressFields
+                    idPrefix="shipping"
+                    value={shippingAddress}
+                    onChange={setShippingAddress}
+                    errors={shippingErrors}
+                  />
+                  {currentUser && !savedAddresses.some(a => isSameAddress(a, shippingAddress)) && (
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox checked={saveAddress} onCheckedChange={(checked) => setSaveAddress(checked === true)} />
+                      {t('address.save_to_book')}
+                    </label>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Billing Address */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>{t('address.billing_address')}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={billingSameAsShipping}
+                      onCheckedChange={(checked) => setBillingSameAsShipping(checked === true)}
+                    />
+                    {t('address.same_as_shipping')}
+                  </label>
+                  {!billingSameAsShipping && (
+                    <>
+                      {savedAddresses.length > 0 && (
+                        <SavedAddressSelect
+                          addresses={savedAddresses}
+                          onSelect={(address) => setBillingAddress(normalizeAddress(address))}
+                        />
+                      )}
+                      <AddressFields
+                        idPrefix="billing"
+                        value={billingAddress}
+                        onChange={setBillingAddress}
+                        errors={billingErrors}
                       />
-                    </div>
-                  </div>
+                    </>
+                  )}
                 </CardContent>
               </Card>
 
@@ -205,18 +488,38 @@ export const Checkout = () => {
                   <CardTitle>{t('checkout.shipping_options')}</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <Select value={shippingOption} onValueChange={setShippingOption}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {shippingOptions.map((option) => (
-                        <SelectItem key={option.id} value={option.id}>
-                          {option.name} - ${option.cost.toFixed(2)}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  {!shippingAddress.country ? (
+                    <p className="text-sm text-muted-foreground">{t('shipping_rates.select_country_first')}</p>
+                  ) : shippingQuotes.length === 0 ? (
+                    <p className="text-sm text-destructive">{t('shipping_rates.unavailable')}</p>
+                  ) : (
+                    <RadioGroup value={shippingQuote?.id} onValueChange={setShippingOption}>
+                      {shippingQuotes.map((quote) => {
+                        const estimate = estimateDelivery(quote);
+                        return (
+                          <label
+                            key={quote.id}
+                            htmlFor={`shipping-${quote.id}`}
+                            className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer"
+                          >
+                            <RadioGroupItem id={`shipping-${quote.id}`} value={quote.id} />
+                            <div className="flex-1">
+                              <p className="font-medium">{quote.name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {t('shipping_rates.estimated_delivery')}{' '}
+                                {quote.minDays === quote.maxDays
+                                  ? formatDeliveryDate(estimate.latest)
+                                  : `${formatDeliveryDate(estimate.earliest)} – ${formatDeliveryDate(estimate.latest)}`}
+                              </p>
+                            </div>
+                            <span className="font-medium">
+                              {quote.free ? t('shipping_rates.free') : formatPrice(quote.cost)}
+                            </span>
+                          </label>
+                        );
+                      })}
+                    </RadioGroup>
+                  )}
                 </CardContent>
               </Card>
 
@@ -229,49 +532,43 @@ export const Checkout = () => {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="cardName">{t('checkout.cardholder_name')}</Label>
-                    <Input
-                      id="cardName"
-                      value={paymentInfo.cardName}
-                      onChange={(e) => setPaymentInfo(prev => ({ ...prev, cardName: e.target.value }))}
-                      required
-                    />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="cardNumber">{t('checkout.card_number')}</Label>
-                    <Input
-                      id="cardNumber"
-                      placeholder={t('checkout.card_number_placeholder')}
-                      value={paymentInfo.cardNumber}
-                      onChange={(e) => setPaymentInfo(prev => ({ ...prev, cardNumber: e.target.value }))}
-                      required
-                    />
-                  </div>
-                  
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="expiryDate">{t('checkout.expiry_date')}</Label>
-                      <Input
-                        id="expiryDate"
-                        placeholder={t('checkout.expiry_placeholder')}
-                        value={paymentInfo.expiryDate}
-                        onChange={(e) => setPaymentInfo(prev => ({ ...prev, expiryDate: e.target.value }))}
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="cvv">{t('checkout.cvv')}</Label>
-                      <Input
-                        id="cvv"
-                        placeholder={t('checkout.cvv_placeholder')}
-                        value={paymentInfo.cvv}
-                        onChange={(e) => setPaymentInfo(prev => ({ ...prev, cvv: e.target.value }))}
-                        required
-                      />
+                  <RadioGroup value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                    {paymentMethods.map((method) => {
+                      const error = getPaymentMethodError(method);
+                      return (
+                        <label
+                          key={method}
+                          htmlFor={`payment-${method}`}
+                          className={`flex items-center gap-3 p-3 border rounded-lg ${error ? 'opacity-60' : 'cursor-pointer'}`}
+                        >
+                          <RadioGroupItem id={`payment-${method}`} value={method} disabled={!!error} />
+                          <div className="flex-1">
+                            <p className="font-medium">{t(`payment_methods.${method}`)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {error
+                                ? t(`payment_methods.error_${error}`)
+                                : method === 'store_credit'
+                                  ? `${t('payment_methods.balance')}: ${formatPrice(creditBalance)}`
+                                  : t(`payment_methods.${method}_description`)}
+                            </p>
+                          </div>
+                          {method === 'cod' && paymentSettings.codSurcharge > 0 && (
+                            <span className="text-sm">+{formatPrice(paymentSettings.codSurcharge)}</span>
+                          )}
+                        </label>
+                      );
+                    })}
+                  </RadioGroup>
+
+                  {paymentMethod === 'card' && (
+                    <CardPaymentFields value={card} onChange={setCard} errors={cardErrors} />
+                  )}
+                  {paymentMethod === 'bank_transfer' && (
+                    <div className="p-3 rounded-lg bg-muted space-y-2">
+                      <p className="text-sm">{t('payment_methods.bank_transfer_hold')}</p>
+                      <BankTransferDetails details={paymentSettings.bankDetails} />
                     </div>
-                  </div>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -283,6 +580,8 @@ export const Checkout = () => {
                   <CardTitle>{t('checkout.order_summary')}</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  <CompatibilityWarnings issues={compatibilityIssues} />
+
                   <div className="space-y-2">
                     {cartItems.map((item) => {
                       const product = getProduct(item.productId);
@@ -291,35 +590,89 @@ export const Checkout = () => {
                       return (
                         <div key={item.productId} className="flex justify-between text-sm">
                           <span>{product.name} × {item.quantity}</span>
-                          <span>${(item.price * item.quantity).toFixed(2)}</span>
+                          <span>{formatPrice(item.price * item.quantity)}</span>
                         </div>
                       );
                     })}
                   </div>
                   
                   <div className="border-t pt-4 space-y-2">
-                    <div className="flex justify-between">
-                      <span>{t('checkout.subtotal')}</span>
-                      <span>${calculateSubtotal().toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>{t('checkout.shipping')}</span>
-                      <span>${getShippingCost().toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between font-bold text-lg">
-                      <span>{t('checkout.total')}</span>
-                      <span>${calculateTotal().toFixed(2)}</span>
-                    </div>
+                    <Label htmlFor="promoCode">{t('promotions.code_label')}</Label>
+                    {codePromotion ? (
+                      <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                        <span className="flex items-center gap-2">
+                          <Tag className="h-4 w-4 text-primary" />
+                          {codePromotion.code}
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          aria-label={t('promotions.remove_code')}
+                          onClick={() => setCodePromotion(null)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          id="promoCode"
+                          value={promoCode}
+                          onChange={(e) => setPromoCode(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              handleApplyCode();
+                            }
+                          }}
+                          placeholder={t('promotions.code_placeholder')}
+                        />
+                        <Button type="button" variant="outline" onClick={handleApplyCode} disabled={!promoCode.trim()}>
+                          {t('promotions.apply')}
+                        </Button>
+                      </div>
+                    )}
                   </div>
+
+                  <PriceSummary pricing={pricing} destinationPending={!shippingQuote} className="border-t pt-4" />
+                  {currency !== BASE_CURRENCY && (
+                    <p className="text-xs text-muted-foreground">
+                      {t('currency.charged_in')} {BASE_CURRENCY}: {formatPrice(pricing.total, getBaseRate())}. {t('currency.estimate_hint')}
+                    </p>
+                  )}
                   
-                  <Button type="submit" className="w-full" size="lg">
-                    {t('checkout.place_order')}
+                  <Button type="submit" className="w-full" size="lg" disabled={hasCompatibilityErrors || processingPayment}>
+                    {processingPayment ? t('payments.processing') : t('checkout.place_order')}
                   </Button>
                 </CardContent>
               </Card>
             </div>
           </div>
         </form>
+
+        <AlertDialog open={showCompatibilityConfirm} onOpenChange={setShowCompatibilityConfirm}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('compatibility.confirm_title')}</AlertDialogTitle>
+              <AlertDialogDescription>{t('compatibility.confirm_description')}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <CompatibilityWarnings issues={compatibilityIssues} />
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+              <AlertDialogAction onClick={placeOrder}>{t('compatibility.place_anyway')}</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {challengePayment && (
+          <PaymentChallengeDialog
+            payment={challengePayment}
+            onResult={handlePaymentResult}
+            onCancel={() => setChallengePayment(null)}
+          />
+        )}
       </div>
     </div>
   );
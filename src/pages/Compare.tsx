@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCompare } from '@/contexts/CompareContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { GitCompare, ShoppingCart, X } from 'lucide-react';
+import { getCompareRows, getPriceBest, getValueMetrics } from '@/lib/compare';
+import { formatSpecValue, getSpecField } from '@/lib/specs';
+import { productStorage, cartStorage, type Product } from '@/lib/storage';
+
+const bestCellClass = (best: number[], index: number) => {
+  return best.includes(index) ? 'bg-primary/10 text-primary font-bold' : '';
+};
+
+export function Compare() {
+  const { compareIds, removeFromCompare, clearCompare } = useCompare();
+  const [cartItemCount, setCartItemCount] = useState(0);
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+
+  useEffect(() => {
+    updateCartCount();
+  }, []);
+
+  const updateCartCount = () => {
+    const cart = cartStorage.getCart();
+    setCartItemCount(cart.reduce((total, item) => total + item.quantity, 0));
+  };
+
+  const handleAddToCart = (product: Product) => {
+    if (cartStorage.addToCart(product.id, product.price, 1) === 0) {
+      toast({
+        title: t('stock.limited_title'),
+        description: t('stock.unavailable'),
+        variant: "destructive",
+      });
+      return;
+    }
+    updateCartCount();
+    toast({
+      title: t('common.success'),
+      description: `${product.name} has been added to your cart.`,
+    });
+  };
+
+  // Keep the order the products were ticked in
+  const allProducts = productStorage.getProducts();
+  const products = compareIds
+    .map(id => allProducts.find(p => p.id === id))
+    .filter((p): p is Product => !!p);
+
+  if (products.length === 0) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header cartItemCount={cartItemCount} />
+        <div className="container mx-auto px-4 py-8 text-center">
+          <GitCompare className="mx-auto h-16 w-16 text-muted-foreground mb-4" />
+          <h2 className="text-2xl font-bold mb-2">{t('compare.empty')}</h2>
+          <p className="text-muted-foreground mb-6">{t('compare.empty_subtitle')}</p>
+          <Link to="/">
+            <Button>{t('cart.continue_shopping')}</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const priceBest = getPriceBest(products);
+  const metrics = getValueMetrics(products);
+  const rows = getCompareRows(products);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header cartItemCount={cartItemCount} />
+
+      <main className="container mx-auto px-4 py-4 sm:py-8">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold">{t('compare.title')}</h1>
+          <Button variant="outline" size="sm" onClick={clearCompare}>
+            {t('compare.clear')}
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40" />
+                  {products.map((product) => (
+                    <TableHead key={product.id} className="min-w-[12rem] align-top py-4">
+                      <div className="relative space-y-2">
+                        <button
+                          type="button"
+                          aria-label={t('compare.remove')}
+                          onClick={() => removeFromCompare(product.id)}
+                          className="absolute top-0 right-0 text-muted-foreground hover:text-destructive"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                        <Link to={`/product/${product.id}`} className="block space-y-2">
+                          <img
+                            src={product.imageUrl}
+                            alt={product.name}
+                            className="h-24 w-24 rounded-lg object-cover"
+                          />
+                          <span className="block font-semibold text-foreground hover:text-primary">
+                            {product.name}
+                          </span>
+                        </Link>
+                        <Button
+                          size="sm"
+                          onClick={() => handleAddToCart(product)}
+                          disabled={product.inStock === 0}
+                        >
+                          <ShoppingCart className="h-4 w-4 mr-2" />
+                          {product.inStock === 0 ? t('product.out_of_stock') : t('product.add_to_cart')}
+                        </Button>
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="font-medium">{t('compare.price')}</TableCell>
+                  {products.map((product, index) => (
+                    <TableCell key={product.id} className={bestCellClass(priceBest, index)}>
+                      {formatPrice(product.price)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+
+                {metrics.map((metric) => (
+                  <TableRow key={metric.id}>
+                    <TableCell className="font-medium">{t(`compare.${metric.id}`)}</TableCell>
+                    {metric.values.map((value, index) => (
+                      <TableCell key={products[index].id} className={bestCellClass(metric.best, index)}>
+                        {value === null ? '—' : formatPrice(value)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+
+                <TableRow>
+                  <TableCell className="font-medium">{t('product.in_stock')}</TableCell>
+                  {products.map((product) => (
+                    <TableCell key={product.id}>{product.inStock}</TableCell>
+                  ))}
+                </TableRow>
+
+                {rows.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium capitalize">
+                      {products.some(p => getSpecField(p.categoryId, row.key)) ? t(`specs.${row.key}`) : row.key}
+                    </TableCell>
+                    {row.values.map((value, index) => (
+                      <TableCell key={products[index].id} className={bestCellClass(row.best, index)}>
+                        {value === undefined ? '—' : formatSpecValue(products[index].categoryId, row.key, value)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
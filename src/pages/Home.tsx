@@ -1,29 +1,81 @@
-import { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { ProductCard } from '@/components/ProductCard';
 import { CategoryFilter } from '@/components/CategoryFilter';
+import { FacetSidebar } from '@/components/FacetSidebar';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
 import { Zap, TrendingUp, Star } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { 
   productStorage, 
   categoryStorage, 
   cartStorage, 
+  orderStorage,
   initializeDefaultData,
   type Product, 
   type Category 
 } from '@/lib/storage';
+import {
+  applyFacets,
+  buildFacets,
+  emptyFacetSelection,
+  parseFacetParams,
+  writeFacetParams,
+  type Facet,
+  type FacetSelection
+} from '@/lib/facets';
+import { buildSearchIndex, searchProducts } from '@/lib/search';
+import {
+  getDefaultSort,
+  getSortModes,
+  getPageCount,
+  getPageItems,
+  getSalesCounts,
+  paginate,
+  parseSortMode,
+  sortProducts,
+  type SortMode
+} from '@/lib/catalog';
 
 export function Home() {
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [facets, setFacets] = useState<Facet[]>([]);
+  const [salesCounts, setSalesCounts] = useState<Map<string, number>>(new Map());
   const [cartItemCount, setCartItemCount] = useState(0);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const productsSectionRef = useRef<HTMLElement>(null);
   const { t } = useLanguage();
 
+  // Category, search, facets, sort and page live in the URL so views can be bookmarked
+  const selectedCategory = searchParams.get('category');
+  const searchQuery = searchParams.get('q') || '';
+  const facetSelection = useMemo(() => parseFacetParams(searchParams), [searchParams]);
+  const hasQuery = searchQuery.trim() !== '';
+  const sortMode = parseSortMode(searchParams.get('sort'), hasQuery);
+  const searchIndex = useMemo(() => buildSearchIndex(products), [products]);
+
+  const sortedProducts = useMemo(
+    () => sortProducts(filteredProducts, sortMode, salesCounts),
+    [filteredProducts, sortMode, salesCounts]
+  );
+  const pageCount = getPageCount(sortedProducts.length);
+  const currentPage = Math.min(Math.max(parseInt(searchParams.get('page') || '1') || 1, 1), pageCount);
+  const pageProducts = paginate(sortedProducts, currentPage);
+
   useEffect(() => {
     // Initialize default data on first load
     initializeDefaultData();
@@ -35,6 +87,7 @@ export function Home() {
     setProducts(loadedProducts);
     setCategories(loadedCategories);
     setFilteredProducts(loadedProducts);
+    setSalesCounts(getSalesCounts(orderStorage.getOrders()));
     
     // Update cart count
     updateCartCount();
@@ -49,20 +102,16 @@ export function Home() {
       filtered = filtered.filter(product => product.categoryId === selectedCategory);
     }
 
-    // Filter by search query
+    // Filter by search query, most relevant first
     if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(product =>
-        product.name.toLowerCase().includes(query) ||
-        product.description.toLowerCase().includes(query) ||
-        Object.values(product.specs).some(spec => 
-          spec.toLowerCase().includes(query)
-        )
-      );
+      const matches = searchProducts(searchIndex, searchQuery).map(result => result.product);
+      filtered = matches.filter(product => filtered.includes(product));
     }
 
-    setFilteredProducts(filtered);
-  }, [products, selectedCategory, searchQuery]);
+    // Facets are built before they are applied so every value keeps its count
+    setFacets(buildFacets(selectedCategory, filtered, facetSelection));
+    setFilteredProducts(applyFacets(filtered, facetSelection));
+  }, [products, searchIndex, selectedCategory, searchQuery, facetSelection]);
 
   const updateCartCount = () => {
     const cart = cartStorage.getCart();
@@ -71,11 +120,60 @@ export function Home() {
   };
 
   const handleSearch = (query: string) => {
-    setSearchQuery(query);
+    const next = new URLSearchParams(searchParams);
+    if (query.trim()) {
+      next.set('q', query.trim());
+    } else {
+      next.delete('q');
+    }
+    next.delete('page');
+    setSearchParams(next);
   };
 
   const handleCategoryChange = (categoryId: string | null) => {
-    setSelectedCategory(categoryId);
+    // Spec facets belong to a category, so they reset with it
+    const next = writeFacetParams(searchParams, emptyFacetSelection());
+    if (categoryId) {
+      next.set('category', categoryId);
+    } else {
+      next.delete('category');
+    }
+    next.delete('page');
+    setSearchParams(next);
+  };
+
+  const handleFacetChange = (selection: FacetSelection) => {
+    const next = writeFacetParams(searchParams, selection);
+    next.delete('page');
+    setSearchParams(next);
+  };
+
+  const handleSortChange = (mode: SortMode) => {
+    const next = new URLSearchParams(searchParams);
+    if (mode === getDefaultSort(hasQuery)) {
+      next.delete('sort');
+    } else {
+      next.set('sort', mode);
+    }
+    next.delete('page');
+    setSearchParams(next);
+  };
+
+  const getPageParams = (page: number) => {
+    const next = new URLSearchParams(searchParams);
+    if (page > 1) {
+      next.set('page', String(page));
+    } else {
+      next.delete('page');
+    }
+    return next;
+  };
+
+  const handlePageChange = (page: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (page < 1 || page > pageCount || page === currentPage) return;
+    setSearchParams(getPageParams(page));
+    productsSectionRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   const handleAddToCart = () => {
@@ -133,12 +231,27 @@ export function Home() {
         )}
 
         {/* All Products */}
-        <section>
+        <section ref={productsSectionRef}>
           <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-2 mb-6">
             <h2 className="text-2xl sm:text-3xl font-bold">{t('home.all_products')}</h2>
             <Badge variant="outline" className="text-muted-foreground w-fit">
               {filteredProducts.length} {t('home.items')}
             </Badge>
+            <div className="sm:ml-auto flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">{t('sorting.sort_by')}</span>
+              <Select value={sortMode} onValueChange={(value) => handleSortChange(value as SortMode)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {getSortModes(hasQuery).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {t(`sorting.${mode}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           {/* Category Filter */}
@@ -148,35 +261,87 @@ export function Home() {
             onCategoryChange={handleCategoryChange}
           />
 
-          {/* Products Grid */}
-          {filteredProducts.length > 0 ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
-              {filteredProducts.map((product) => (
-                <ProductCard
-                  key={product.id}
-                  product={product}
-                  onAddToCart={handleAddToCart}
+          <div className="flex flex-col lg:flex-row gap-6">
+            {/* Facets */}
+            {facets.length > 0 && (
+              <div className="lg:w-64 flex-shrink-0">
+                <FacetSidebar
+                  facets={facets}
+                  selection={facetSelection}
+                  onChange={handleFacetChange}
+                  onClear={() => handleFacetChange(emptyFacetSelection())}
                 />
-              ))}
-            </div>
-          ) : (
-            <div className="text-center py-8 sm:py-12">
-              <div className="text-4xl sm:text-6xl mb-4">🔍</div>
-              <h3 className="text-lg sm:text-xl font-semibold mb-2">{t('home.no_products_found')}</h3>
-              <p className="text-sm sm:text-base text-muted-foreground mb-4 px-4">
-                {t('home.no_products_subtitle')}
-              </p>
-              <Button 
-                variant="outline" 
-                onClick={() => {
-                  setSearchQuery('');
-                  setSelectedCategory(null);
-                }}
-              >
-                {t('home.clear_filters')}
-              </Button>
+              </div>
+            )}
+
+            <div className="flex-1 min-w-0">
+              {/* Products Grid */}
+              {pageProducts.length > 0 ? (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
+                    {pageProducts.map((product) => (
+                      <ProductCard
+                        key={product.id}
+                        product={product}
+                        onAddToCart={handleAddToCart}
+                      />
+                    ))}
+                  </div>
+
+                  {/* Pagination */}
+                  {pageCount > 1 && (
+                    <Pagination className="mt-6 sm:mt-8">
+                      <PaginationContent>
+                        <PaginationItem>
+                          <PaginationPrevious
+                            href={`?${getPageParams(currentPage - 1)}`}
+                            onClick={handlePageChange(currentPage - 1)}
+                            className={currentPage === 1 ? 'pointer-events-none opacity-50' : ''}
+                          />
+                        </PaginationItem>
+                        {getPageItems(currentPage, pageCount).map((page, index) => (
+                          <PaginationItem key={page ?? `gap-${index}`}>
+                            {page === null ? (
+                              <PaginationEllipsis />
+                            ) : (
+                              <PaginationLink
+                                href={`?${getPageParams(page)}`}
+                                isActive={page === currentPage}
+                                onClick={handlePageChange(page)}
+                              >
+                                {page}
+                              </PaginationLink>
+                            )}
+                          </PaginationItem>
+                        ))}
+                        <PaginationItem>
+                          <PaginationNext
+                            href={`?${getPageParams(currentPage + 1)}`}
+                            onClick={handlePageChange(currentPage + 1)}
+                            className={currentPage === pageCount ? 'pointer-events-none opacity-50' : ''}
+                          />
+                        </PaginationItem>
+                      </PaginationContent>
+                    </Pagination>
+                  )}
+                </>
+              ) : (
+                <div className="text-center py-8 sm:py-12">
+                  <div className="text-4xl sm:text-6xl mb-4">🔍</div>
+                  <h3 className="text-lg sm:text-xl font-semibold mb-2">{t('home.no_products_found')}</h3>
+                  <p className="text-sm sm:text-base text-muted-foreground mb-4 px-4">
+                    {t('home.no_products_subtitle')}
+                  </p>
+                  <Button 
+                    variant="outline" 
+                    onClick={() => setSearchParams({})}
+                  >
+                    {t('home.clear_filters')}
+                  </Button>
+                </div>
+              )}
             </div>
-          )}
+          </div>
         </section>
       </main>
     </div>
@@ -0,0 +1,256 @@
+import { useRef, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import html2canvas from 'html2canvas';
+import { jsPDF } from 'jspdf';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { ArrowLeft, Download, Languages, Printer } from 'lucide-react';
+import { getOrderPricing } from '@/lib/pricing';
+import { formatAddress } from '@/lib/address';
+import { getOrderPaymentMethod } from '@/lib/paymentMethods';
+import { getBaseRate, getOrderEstimate } from '@/lib/currency';
+import {
+  ORDER_DOCUMENT_TYPES,
+  SELLER_DETAILS,
+  canViewOrderDocuments,
+  getDocumentLines,
+  getInvoiceNumber,
+  type OrderDocumentType
+} from '@/lib/documents';
+import { orderStorage, productStorage, userStorage, paymentStorage } from '@/lib/storage';
+
+// Printable invoice or packing slip, which can also be downloaded as a PDF.
+// The toolbar is hidden when printing.
+export function OrderDocument() {
+  const { orderId, documentType } = useParams<{ orderId: string; documentType: string }>();
+  const [searchParams] = useSearchParams();
+  const { language, toggleLanguage, t } = useLanguage();
+  const { formatPrice, formatAmount } = useCurrency();
+  const { toast } = useToast();
+  const documentRef = useRef<HTMLElement>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  const email = searchParams.get('email') || undefined;
+  const currentUser = userStorage.getCurrentUser();
+  const order = orderStorage.getOrders().find(o => o.id === orderId);
+  const owner = order?.userId ? userStorage.getUsers().find(u => u.id === order.userId) : undefined;
+  const type = ORDER_DOCUMENT_TYPES.find(d => d === documentType) as OrderDocumentType | undefined;
+
+  const backTo = currentUser?.role === 'admin'
+    ? '/admin'
+    : `/order-lookup${order ? `?order=${order.id.slice(0, 8)}&email=${encodeURIComponent(email || owner?.email || '')}` : ''}`;
+
+  if (!order || !type || !canViewOrderDocuments(order, currentUser, owner, email)) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4 p-4">
+        <p className="text-muted-foreground">{t('documents.not_found')}</p>
+        <Button asChild variant="outline">
+          <Link to={backTo}>{t('documents.back')}</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const isInvoice = type === 'invoice';
+  const invoiceNumber = getInvoiceNumber(order);
+  const lines = getDocumentLines(order, productStorage.getProducts());
+  const pricing = getOrderPricing(order);
+  const payment = paymentStorage.getOrderPayment(order.id);
+  const dateLocale = language === 'ar' ? 'ar' : 'en-US';
+  const estimate = getOrderEstimate(order);
+  const format = (amount: number) => formatPrice(amount, getBaseRate());
+
+  const fileName = isInvoice ? invoiceNumber : `${t('documents.packing_slip')} ${order.id.slice(0, 8)}`;
+
+  // The file name the browser suggests when saving from the print dialog comes
+  // from the title
+  const handlePrint = () => {
+    const previousTitle = document.title;
+    document.title = fileName;
+    window.print();
+    document.title = previousTitle;
+  };
+
+  // The document is drawn as an image, so Arabic text and right-to-left layout
+  // come out exactly as on screen. Long documents continue on further A4 pages.
+  const handleDownload = async () => {
+    if (!documentRef.current) return;
+    setDownloading(true);
+    try {
+      const canvas = await html2canvas(documentRef.current, { scale: 2, backgroundColor: '#ffffff' });
+      const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+      const pageWidth = pdf.internal.pageSize.getWidth();
+      const pageHeight = pdf.internal.pageSize.getHeight();
+      const imageHeight = (canvas.height * pageWidth) / canvas.width;
+      for (let offset = 0; offset < imageHeight; offset += pageHeight) {
+        if (offset > 0) pdf.addPage();
+        pdf.addImage(canvas, 'PNG', 0, -offset, pageWidth, imageHeight);
+      }
+      pdf.save(`${fileName}.pdf`);
+    } catch {
+      toast({ title: t('documents.pdf_failed'), description: t('documents.pdf_failed_hint'), variant: "destructive" });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-muted print:bg-white">
+      <div className="container mx-auto max-w-3xl px-4 py-4 flex flex-wrap gap-2 justify-between print:hidden">
+        <Button asChild variant="ghost">
+          <Link to={backTo}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t('documents.back')}
+          </Link>
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={toggleLanguage}>
+            <Languages className="h-4 w-4 mr-2" />
+            {language === 'en' ? 'العربية' : 'English'}
+          </Button>
+          <Button variant="outline" onClick={handlePrint}>
+            <Printer className="h-4 w-4 mr-2" />
+            {t('documents.print')}
+          </Button>
+          <Button onClick={handleDownload} disabled={downloading}>
+            <Download className="h-4 w-4 mr-2" />
+            {downloading ? t('documents.preparing_pdf') : t('documents.download_pdf')}
+          </Button>
+        </div>
+      </div>
+
+      <article
+        ref={documentRef}
+        lang={language}
+        dir={language === 'ar' ? 'rtl' : 'ltr'}
+        className="container mx-auto max-w-3xl bg-white text-black p-8 mb-8 shadow print:shadow-none print:p-0 print:m-0 space-y-8 text-sm"
+      >
+        <header className="flex flex-wrap justify-between gap-6">
+          <div>
+            <h1 className="text-2xl font-bold">{SELLER_DETAILS.name}</h1>
+            {SELLER_DETAILS.addressLines.map(line => <p key={line}>{line}</p>)}
+            <p>{SELLER_DETAILS.email} · {SELLER_DETAILS.phone}</p>
+            {isInvoice && <p>{t('documents.tax_id')}: {SELLER_DETAILS.taxId}</p>}
+          </div>
+          <div className="text-end">
+            <h2 className="text-xl font-semibold uppercase">
+              {isInvoice ? t('documents.invoice') : t('documents.packing_slip')}
+            </h2>
+            {isInvoice && <p>{t('documents.invoice_number')}: {invoiceNumber}</p>}
+            <p>{t('orders.order_id')}: #{order.id.slice(0, 8)}</p>
+            <p>{t('documents.date')}: {new Date(order.createdAt).toLocaleDateString(dateLocale)}</p>
+          </div>
+        </header>
+
+        <section className="grid sm:grid-cols-2 gap-6">
+          {isInvoice && (
+            <div>
+              <h3 className="font-semibold mb-1">{t('documents.bill_to')}</h3>
+              <p>{formatAddress(order.billingAddress || order.shippingAddress, language)}</p>
+              <p>{owner?.email || order.guestEmail}</p>
+            </div>
+          )}
+          <div>
+            <h3 className="font-semibold mb-1">{t('documents.ship_to')}</h3>
+            <p>{formatAddress(order.shippingAddress, language)}</p>
+            {pricing.shippingMethod && (
+              <p>{t('checkout.shipping')}: {pricing.shippingName || t(`checkout.${pricing.shippingMethod}`)}</p>
+            )}
+          </div>
+        </section>
+
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b-2 border-black text-start">
+              <th className="py-2 text-start">{t('documents.item')}</th>
+              <th className="py-2 text-end">{t('documents.quantity')}</th>
+              {isInvoice && <th className="py-2 text-end">{t('documents.unit_price')}</th>}
+              {isInvoice && <th className="py-2 text-end">{t('documents.amount')}</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map(line => (
+              <tr key={line.productId} className="border-b border-gray-300">
+                <td className="py-2">{line.name}</td>
+                <td className="py-2 text-end">{line.quantity}</td>
+                {isInvoice && <td className="py-2 text-end">{format(line.unitPrice)}</td>}
+                {isInvoice && <td className="py-2 text-end">{format(line.total)}</td>}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {isInvoice ? (
+          <section className="flex flex-wrap justify-between gap-6">
+            <div>
+              <h3 className="font-semibold mb-1">{t('payment_methods.title')}</h3>
+              <p>
+                {t(`payment_methods.${getOrderPaymentMethod(order)}`)}
+                {payment && ` · ${t(`payments.brand_${payment.card.brand}`)} •••• ${payment.card.last4}`}
+              </p>
+              {!!pricing.taxIncluded && (
+                <p className="mt-2 text-gray-600">{t('tax.prices_include_tax')}</p>
+              )}
+            </div>
+            <dl className="min-w-64 space-y-1">
+              <div className="flex justify-between gap-4">
+                <dt>{t('checkout.subtotal')}</dt>
+                <dd>{format(pricing.subtotal)}</dd>
+              </div>
+              {pricing.discounts.map(discount => (
+                <div key={discount.promotionId || discount.label} className="flex justify-between gap-4">
+                  <dt>{discount.label}</dt>
+                  <dd>-{format(discount.amount)}</dd>
+                </div>
+              ))}
+              <div className="flex justify-between gap-4">
+                <dt>{t('checkout.shipping')}</dt>
+                <dd>{format(pricing.shipping)}</dd>
+              </div>
+              {!!pricing.paymentSurcharge && (
+                <div className="flex justify-between gap-4">
+                  <dt>{t('payment_methods.cod_fee')}</dt>
+                  <dd>{format(pricing.paymentSurcharge)}</dd>
+                </div>
+              )}
+              {pricing.taxes ? (
+                pricing.taxes.map(line => (
+                  <div key={`${line.name}-${line.region || ''}`} className="flex justify-between gap-4">
+                    <dt>
+                      {line.name} ({line.rate}%)
+                      {line.inclusive && ` · ${t('tax.included')}`}
+                    </dt>
+                    <dd>{format(line.amount)}</dd>
+                  </div>
+                ))
+              ) : (
+                <div className="flex justify-between gap-4">
+                  <dt>{t('pricing.tax')} ({(pricing.taxRate * 100).toFixed(0)}%)</dt>
+                  <dd>{format(pricing.tax)}</dd>
+                </div>
+              )}
+              <div className="flex justify-between gap-4 border-t-2 border-black pt-1 font-bold text-base">
+                <dt>{t('checkout.total')}</dt>
+                <dd>{format(pricing.total)}</dd>
+              </div>
+              {estimate && (
+                <div className="flex justify-between gap-4 text-gray-600">
+                  <dt>{t('currency.estimate')} ({estimate.currency})</dt>
+                  <dd>{formatAmount(estimate.total, estimate)}</dd>
+                </div>
+              )}
+            </dl>
+          </section>
+        ) : (
+          <p>{t('documents.packing_slip_note')}</p>
+        )}
+
+        <footer className="border-t border-gray-300 pt-4 text-center text-gray-600">
+          {t('documents.thank_you')}
+        </footer>
+      </article>
+    </div>
+  );
+}
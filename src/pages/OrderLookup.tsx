@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { PriceSummary } from '@/components/PriceSummary';
+import { OrderTimeline } from '@/components/OrderTimeline';
+import { ReturnRequestForm } from '@/components/ReturnRequestForm';
+import { ShipmentList } from '@/components/ShipmentList';
+import { PaymentSummary } from '@/components/PaymentSummary';
+import { BankTransferDetails } from '@/components/BankTransferDetails';
+import { OrderDocumentLinks } from '@/components/OrderDocumentLinks';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { PackageSearch, RotateCcw, XCircle } from 'lucide-react';
+import { getOrderPricing } from '@/lib/pricing';
+import { canCustomerCancel } from '@/lib/orderStatus';
+import { formatAddress } from '@/lib/address';
+import { releaseOrderPayment } from '@/lib/payments';
+import { getOrderPaymentMethod, isAwaitingFunds, isTransferRefundOwed } from '@/lib/paymentMethods';
+import { BASE_CURRENCY, getBaseRate, getOrderEstimate } from '@/lib/currency';
+import {
+  orderStorage,
+  productStorage,
+  cartStorage,
+  userStorage,
+  returnStorage,
+  shipmentStorage,
+  paymentStorage,
+  paymentSettingsStorage,
+  type Order
+} from '@/lib/storage';
+
+export function OrderLookup() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [orderId, setOrderId] = useState(() => searchParams.get('order') || '');
+  const [email, setEmail] = useState(() => searchParams.get('email') || '');
+  // Links from checkout carry both fields, so show the order straight away
+  const [order, setOrder] = useState<Order | null>(() => {
+    const initialId = searchParams.get('order');
+    const initialEmail = searchParams.get('email');
+    return initialId && initialEmail ? orderStorage.findOrder(initialId, initialEmail) : null;
+  });
+  const [notFound, setNotFound] = useState(false);
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const { language, t } = useLanguage();
+  const { formatPrice, formatAmount } = useCurrency();
+
+  const products = productStorage.getProducts();
+  const cartItemCount = cartStorage.getCart().reduce((total, item) => total + item.quantity, 0);
+  const currentUser = userStorage.getCurrentUser();
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    const found = orderStorage.findOrder(orderId, email);
+    setOrder(found);
+    setNotFound(!found);
+    setSearchParams(found ? { order: orderId.trim(), email: email.trim() } : {}, { replace: true });
+    setShowReturnForm(false);
+  };
+
+  const reloadOrder = () => {
+    if (order) {
+      setOrder(orderStorage.getOrders().find(o => o.id === order.id) || null);
+    }
+  };
+
+  const handleCancelOrder = async () => {
+    if (!order) return;
+    if (!orderStorage.updateOrderStatus(order.id, 'cancelled', currentUser?.id || order.userId)) {
+      toast({
+        title: t('returns.cancel_failed'),
+        description: t('order_status.invalid_transition'),
+        variant: "destructive"
+      });
+      return;
+    }
+    await releaseOrderPayment(order.id);
+    reloadOrder();
+    toast({
+      title: t('returns.order_cancelled'),
+      description: `${t('orders.order_id')} #${order.id.slice(0, 8)}`
+    });
+  };
+
+  const shipments = order ? shipmentStorage.getOrderShipments(order.id) : [];
+  const payment = order ? paymentStorage.getOrderPayment(order.id) : null;
+  const returns = order ? returnStorage.getOrderReturns(order.id) : [];
+  const orderRate = getBaseRate();
+  const estimate = order ? getOrderEstimate(order) : undefined;
+  const canRequestReturn = order?.status === 'delivered' &&
+    order.items.some(item => returnStorage.getReturnableQuantity(order, item.productId) > 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header cartItemCount={cartItemCount} />
+
+      <main className="container mx-auto px-4 py-4 sm:py-8 max-w-3xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <PackageSearch className="h-5 w-5" />
+              {t('guest.lookup_title')}
+            </CardTitle>
+            <CardDescription>{t('guest.lookup_subtitle')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleLookup} className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="orderId">{t('guest.order_number')}</Label>
+                <Input
+                  id="orderId"
+                  placeholder="#1a2b3c4d"
+                  value={orderId}
+                  onChange={(e) => setOrderId(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lookupEmail">{t('auth.email')}</Label>
+                <Input
+                  id="lookupEmail"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit">{t('guest.find_order')}</Button>
+            </form>
+            {notFound && (
+              <p className="mt-4 text-sm text-destructive">{t('guest.not_found')}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {order && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                <div>
+                  <CardTitle>{t('orders.order_id')} #{order.id.slice(0, 8)}</CardTitle>
+                  <CardDescription>
+                    {t('orders.placed_on')} {new Date(order.createdAt).toLocaleDateString()}
+                  </CardDescription>
+                </div>
+                <Badge variant={order.status === 'cancelled' ? 'destructive' : 'secondary'}>
+                  {t(`orders.${order.status}`)}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <h3 className="font-semibold">{t('orders.items')}</h3>
+                {order.items.map((item) => {
+                  const product = products.find(p => p.id === item.productId);
+                  return (
+                    <div key={item.productId} className="flex justify-between text-sm">
+                      <span>{product?.name || item.productId} × {item.quantity}</span>
+                      <span>{formatPrice(item.price * item.quantity, orderRate)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="text-sm">
+                <h3 className="font-semibold">{t('orders.shipping_address')}</h3>
+                <p className="text-muted-foreground">{formatAddress(order.shippingAddress, language)}</p>
+              </div>
+
+              <PriceSummary pricing={getOrderPricing(order)} exchangeRate={orderRate} className="border-t pt-4" />
+              {estimate && (
+                <p className="text-xs text-muted-foreground">
+                  {t('currency.estimate')} ({estimate.currency}): {formatAmount(estimate.total, estimate)} · {t('currency.charged_in')} {BASE_CURRENCY}
+                </p>
+              )}
+              <OrderDocumentLinks order={order} email={searchParams.get('email') || undefined} />
+
+              <div className="border-t pt-4 space-y-3">
+                <h3 className="font-semibold">{t('payments.title')}</h3>
+                {payment ? (
+                  <PaymentSummary payment={payment} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">{t(`payment_methods.${getOrderPaymentMethod(order)}`)}</p>
+                )}
+                {isAwaitingFunds(order) && (
+                  <div className="p-3 rounded-lg bg-muted space-y-2">
+                    <p className="text-sm">{t('payment_methods.awaiting_funds')}</p>
+                    <BankTransferDetails
+                      details={paymentSettingsStorage.getSettings().bankDetails}
+                      reference={`#${order.id.slice(0, 8)}`}
+                    />
+                  </div>
+                )}
+                {isTransferRefundOwed(order) && (
+                  <p className="text-sm text-muted-foreground">
+                    {t('payment_methods.refund_pending')}: {formatPrice(order.transferRefundDue || 0, orderRate)}
+                  </p>
+                )}
+              </div>
+
+              {shipments.length > 0 && (
+                <div className="border-t pt-4">
+                  <h3 className="font-semibold mb-3">{t('shipments.title')}</h3>
+                  <ShipmentList shipments={shipments} products={products} />
+                </div>
+              )}
+
+              <div className="border-t pt-4">
+                <h3 className="font-semibold mb-3">{t('order_status.history')}</h3>
+                <OrderTimeline order={order} />
+              </div>
+
+              {returns.length > 0 && (
+                <div className="border-t pt-4 space-y-3">
+                  <h3 className="font-semibold">{t('returns.title')}</h3>
+                  {returns.map((request) => (
+                    <div key={request.id} className="p-3 border rounded-lg text-sm space-y-1">
+                      <div className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">{new Date(request.createdAt).toLocaleDateString()}</span>
+                        <Badge variant={request.status === 'rejected' ? 'destructive' : 'secondary'}>
+                          {t(`returns.status_${request.status}`)}
+                        </Badge>
+                      </div>
+                      {request.lines.map((line) => (
+                        <p key={line.productId}>
+                          {products.find(p => p.id === line.productId)?.name || line.productId} × {line.quantity}
+                          <span className="text-muted-foreground"> · {t(`returns.reason_${line.reason}`)}</span>
+                        </p>
+                      ))}
+                      {request.refundAmount !== undefined && (
+                        <p className="font-medium">{t('returns.refund')}: {formatPrice(request.refundAmount, orderRate)}</p>
+                      )}
+                      {request.adminNote && <p className="text-muted-foreground">{request.adminNote}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {showReturnForm && (
+                <div className="border-t pt-4 space-y-3">
+                  <h3 className="font-semibold">{t('returns.request')}</h3>
+                  <ReturnRequestForm
+                    order={order}
+                    products={products}
+                    onSubmitted={() => setShowReturnForm(false)}
+                    onCancel={() => setShowReturnForm(false)}
+                  />
+                </div>
+              )}
+
+              {(canCustomerCancel(order) || (canRequestReturn && !showReturnForm)) && (
+                <div className="flex flex-wrap gap-2 border-t pt-4">
+                  {canCustomerCancel(order) && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive">
+                          <XCircle className="h-4 w-4 mr-2" />
+                          {t('returns.cancel_order')}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>{t('returns.cancel_confirm_title')}</AlertDialogTitle>
+                          <AlertDialogDescription>{t('returns.cancel_confirm_description')}</AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                          <AlertDialogAction onClick={handleCancelOrder}>{t('returns.cancel_order')}</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                  {canRequestReturn && !showReturnForm && (
+                    <Button variant="outline" onClick={() => setShowReturnForm(true)}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {t('returns.request')}
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {!order.userId && !currentUser && (
+                <p className="text-sm text-muted-foreground border-t pt-4">
+                  {t('guest.claim_hint')}{' '}
+                  <Link to="/signup" className="text-primary hover:underline">
+                    {t('auth.create_account')}
+                  </Link>
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
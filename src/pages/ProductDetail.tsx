@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { ProductCard } from '@/components/ProductCard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { ArrowLeft, Minus, Plus, ShoppingCart, Zap } from 'lucide-react';
+import { getCompatibleParts } from '@/lib/compatibility';
+import { formatSpecValue, getOrderedSpecs, getSpecField } from '@/lib/specs';
+import {
+  productStorage,
+  categoryStorage,
+  cartStorage,
+  type Product,
+  type Category
+} from '@/lib/storage';
+
+const RELATED_LIMIT = 4;
+const COMPATIBLE_PER_TYPE = 4;
+
+export function ProductDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [category, setCategory] = useState<Category | null>(null);
+  const [relatedProducts, setRelatedProducts] = useState<Product[]>([]);
+  const [compatibleProducts, setCompatibleProducts] = useState<Product[]>([]);
+  const [activeImage, setActiveImage] = useState(0);
+  const [quantity, setQuantity] = useState(1);
+  const [cartItemCount, setCartItemCount] = useState(0);
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+
+  useEffect(() => {
+    const products = productStorage.getProducts();
+    const found = products.find(p => p.id === id) || null;
+
+    setProduct(found);
+    setCategory(found ? categoryStorage.getCategories().find(c => c.id === found.categoryId) || null : null);
+    setRelatedProducts(found
+      ? products.filter(p => p.categoryId === found.categoryId && p.id !== found.id).slice(0, RELATED_LIMIT)
+      : []);
+    setCompatibleProducts(found ? getCompatibleParts(found, products, COMPATIBLE_PER_TYPE) : []);
+    setActiveImage(0);
+    setQuantity(1);
+    updateCartCount();
+  }, [id]);
+
+  const updateCartCount = () => {
+    const cart = cartStorage.getCart();
+    setCartItemCount(cart.reduce((total, item) => total + item.quantity, 0));
+  };
+
+  if (!product) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header cartItemCount={cartItemCount} />
+        <div className="container mx-auto px-4 py-8 text-center">
+          <div className="text-4xl sm:text-6xl mb-4">🔍</div>
+          <h2 className="text-2xl font-bold mb-2">{t('product_detail.not_found')}</h2>
+          <p className="text-muted-foreground mb-6">{t('product_detail.not_found_subtitle')}</p>
+          <Link to="/">
+            <Button>{t('cart.continue_shopping')}</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const images = [product.imageUrl, ...(product.images || [])];
+  const maxQuantity = Math.max(product.inStock, 1);
+
+  const changeQuantity = (value: number) => {
+    setQuantity(Math.min(Math.max(value, 1), maxQuantity));
+  };
+
+  const handleAddToCart = () => {
+    const added = cartStorage.addToCart(product.id, product.price, quantity);
+    updateCartCount();
+    if (added < quantity) {
+      toast({
+        title: t('stock.limited_title'),
+        description: added === 0 ? t('stock.unavailable') : `${t('stock.limited')} ${product.name} × ${added}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: t('common.success'),
+      description: `${product.name} × ${quantity}`,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header cartItemCount={cartItemCount} />
+
+      <main className="container mx-auto px-4 py-4 sm:py-8">
+        <Link
+          to={category ? `/?category=${category.id}` : '/'}
+          className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary mb-6"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {category ? t(`categories.${category.name}`) || category.name : t('product_detail.back')}
+        </Link>
+
+        <div className="grid lg:grid-cols-2 gap-6 lg:gap-10 mb-8 sm:mb-12">
+          {/* Gallery */}
+          <div className="space-y-3">
+            <div className="aspect-square relative overflow-hidden rounded-xl bg-muted">
+              <img
+                src={images[activeImage]}
+                alt={product.name}
+                className="w-full h-full object-cover"
+              />
+              {product.featured && (
+                <Badge className="absolute top-3 left-3 bg-gradient-accent text-accent-foreground">
+                  <Zap className="h-3 w-3 mr-1" />
+                  Featured
+                </Badge>
+              )}
+            </div>
+            {images.length > 1 && (
+              <div className="flex gap-2 overflow-x-auto">
+                {images.map((image, index) => (
+                  <button
+                    key={`${image}-${index}`}
+                    type="button"
+                    onClick={() => setActiveImage(index)}
+                    className={`h-16 w-16 sm:h-20 sm:w-20 flex-shrink-0 overflow-hidden rounded-lg border-2 transition-colors ${
+                      index === activeImage ? 'border-primary' : 'border-transparent hover:border-border'
+                    }`}
+                  >
+                    <img src={image} alt={`${product.name} ${index + 1}`} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Summary */}
+          <div className="space-y-6">
+            <div>
+              <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-3">{product.name}</h1>
+              <p className="text-muted-foreground">{product.description}</p>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <span className="text-3xl sm:text-4xl font-bold text-primary">
+                {formatPrice(product.price)}
+              </span>
+              {product.inStock === 0 ? (
+                <Badge variant="destructive">{t('product.out_of_stock')}</Badge>
+              ) : product.inStock <= 5 ? (
+                <Badge variant="destructive">{product.inStock} {t('product.in_stock')}</Badge>
+              ) : (
+                <Badge variant="secondary">{product.inStock} {t('product.in_stock')}</Badge>
+              )}
+            </div>
+
+            {product.inStock > 0 && (
+              <div className="flex flex-col sm:flex-row gap-3">
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => changeQuantity(quantity - 1)}
+                    disabled={quantity <= 1}
+                  >
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                  <Input
+                    type="number"
+                    aria-label={t('product_detail.quantity')}
+                    value={quantity}
+                    onChange={(e) => changeQuantity(parseInt(e.target.value) || 1)}
+                    className="w-16 text-center"
+                    min="1"
+                    max={maxQuantity}
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => changeQuantity(quantity + 1)}
+                    disabled={quantity >= maxQuantity}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Button
+                  className="flex-1"
+                  variant={product.featured ? 'glow' : 'default'}
+                  onClick={handleAddToCart}
+                >
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  {t('product.add_to_cart')}
+                </Button>
+              </div>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('product.specifications')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableBody>
+                    {getOrderedSpecs(product.categoryId, product.specs).map(([key, value]) => (
+                      <TableRow key={key}>
+                        <TableCell className="text-muted-foreground capitalize">
+                          {getSpecField(product.categoryId, key) ? t(`specs.${key}`) : key}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {formatSpecValue(product.categoryId, key, value)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        {/* Compatible Parts */}
+        {compatibleProducts.length > 0 && (
+          <section className="mb-8 sm:mb-12">
+            <h2 className="text-2xl font-bold mb-2">{t('product_detail.compatible_parts')}</h2>
+            <p className="text-muted-foreground mb-6">{t('product_detail.compatible_parts_subtitle')}</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
+              {compatibleProducts.map((p) => (
+                <ProductCard key={p.id} product={p} onAddToCart={updateCartCount} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Related Products */}
+        {relatedProducts.length > 0 && (
+          <section>
+            <h2 className="text-2xl font-bold mb-6">{t('product_detail.related_products')}</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
+              {relatedProducts.map((p) => (
+                <ProductCard key={p.id} product={p} onAddToCart={updateCartCount} />
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}